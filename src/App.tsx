@@ -1,17 +1,75 @@
 
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useJsApiLoader } from '@react-google-maps/api';
-import { Loader2, Navigation, Sparkles, RefreshCw, Moon, Sun } from 'lucide-react';
+import { Loader2, Navigation, Sparkles, RefreshCw, Moon, Sun, Car, Footprints, Bike, Clock, DatabaseZap, Link2, Check, MapPin, ListOrdered, LocateFixed, AreaChart, Mountain } from 'lucide-react';
 import { InputSection } from './components/InputSection';
 import { RouteList } from './components/RouteList';
 import { ProfileSelector } from './components/ProfileSelector';
 import { MapComponent } from './components/MapComponent';
-import { Route, DrivingProfile } from './types';
-import { PROFILES, fetchRoutes, rankRoutes } from './services/routeService';
-import { geocodeLocation } from './services/geocodingService';
+import { LatLng, Route, DrivingProfile, TravelMode, DepartureSlot, FavouriteKind, RecentSearch, SavedTrip, RouteBounds } from './types';
+import { ProfileEditor } from './components/ProfileEditor';
+import { DepartureOptimizer } from './components/DepartureOptimizer';
+import { OfflineDataControl } from './components/OfflineDataControl';
+import { ExportMenu } from './components/ExportMenu';
+import { TrackImport } from './components/TrackImport';
+import { TripLibrary } from './components/TripLibrary';
+import { TripComparison } from './components/TripComparison';
+import { DirectionsPanel } from './components/DirectionsPanel';
+import { ElevationChart } from './components/ElevationChart';
+import { NavigationPanel } from './components/NavigationPanel';
+import { ComparisonCursor, RouteComparisonCharts } from './components/RouteComparisonCharts';
+import { PROFILES, fetchRoutes, rankRoutes, getProfileWeights } from './services/routeService';
+import { loadCustomProfiles, saveCustomProfiles, createCustomProfile } from './services/profileStore';
+import { LocationResult, geocodeCandidates } from './services/geocodingService';
+import { clearCache } from './services/cacheService';
+import { importTrackFile, isImportedRoute } from './services/importService';
+import { buildDirections, findDirectionStep } from './services/directionsService';
+import { toLocalDate, toLocalTime } from './services/departureService';
+import { parseTripQuery, writeTripToHistory } from './utils/tripUrl';
+import { formatCoordinates } from './utils/coordinates';
+import { downloadFile } from './utils/download';
+import {
+    addRecentSearch,
+    clearRecentSearches,
+    createFavourite,
+    createSavedTrip,
+    exportTripData,
+    importTripData,
+    loadFavourites,
+    loadRecentSearches,
+    loadSavedTrips,
+    saveFavourites,
+    saveSavedTrips
+} from './services/tripStore';
 
 const googleMapsApiKey = import.meta.env.VITE_GOOGLE_MAPS_API_KEY || '';
 
+const TRAVEL_MODES: { id: TravelMode, label: string, icon: typeof Car }[] = [
+    { id: 'driving', label: 'Drive', icon: Car },
+    { id: 'walking', label: 'Walk', icon: Footprints },
+    { id: 'cycling', label: 'Cycle', icon: Bike }
+];
+
+interface SearchRequest {
+    stops: string[];
+    optimizeStops: boolean;
+    date: string;
+    time: string;
+    mode: TravelMode;
+    profile: DrivingProfile;
+    routeId?: string; // selected once the results are in, when still offered
+    // Only replace the results: the form, the searched trip and the URL stay as they are
+    resultsOnly?: boolean;
+}
+
+// A stop that matched several places, waiting for the user to pick one
+interface AmbiguousStop {
+    request: SearchRequest;
+    history: 'push' | 'none';
+    query: string;
+    candidates: LocationResult[];
+}
+
 function App() {
     const { isLoaded } = useJsApiLoader({
         id: 'google-map-script',
@@ -20,75 +78,421 @@ function App() {
     });
 
     const [routes, setRoutes] = useState<Route[]>([]);
+    const [profiles, setProfiles] = useState<DrivingProfile[]>(() => [...PROFILES, ...loadCustomProfiles()]);
     const [selectedProfile, setSelectedProfile] = useState<DrivingProfile>(PROFILES[1]);
+    const [editingProfile, setEditingProfile] = useState<DrivingProfile | null>(null);
     const [selectedRouteId, setSelectedRouteId] = useState<string | undefined>();
     const [travelTime, setTravelTime] = useState<string>("20:00");
     const [travelDate, setTravelDate] = useState<string>(new Date().toISOString().split('T')[0]);
+    const [travelMode, setTravelMode] = useState<TravelMode>('driving');
     const [isDarkMode, setIsDarkMode] = useState(false);
     const [isSyncingTime, setIsSyncingTime] = useState(false);
+    const [isClearingCache, setIsClearingCache] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [searchedTrip, setSearchedTrip] = useState<{ stops: string[], optimizeStops: boolean, mode: TravelMode } | null>(null);
+    const [restoredForm, setRestoredForm] = useState<{ stops: string[], optimizeStops: boolean, version: number } | null>(null);
+    const [isLinkCopied, setIsLinkCopied] = useState(false);
+    const [favourites, setFavourites] = useState(loadFavourites);
+    const [recentSearches, setRecentSearches] = useState(loadRecentSearches);
+    const [savedTrips, setSavedTrips] = useState(loadSavedTrips);
+    const [comparingTrip, setComparingTrip] = useState<SavedTrip | null>(null);
+    const [mapBounds, setMapBounds] = useState<RouteBounds | undefined>();
+    const [ambiguousStop, setAmbiguousStop] = useState<AmbiguousStop | null>(null);
+    const [selectedStepKey, setSelectedStepKey] = useState<string | undefined>();
+    const [navigationPosition, setNavigationPosition] = useState<LatLng | undefined>();
+    const [comparisonCursor, setComparisonCursor] = useState<ComparisonCursor[] | undefined>();
+    // Stop texts already tied to an exact place, skipping the geocoder
+    const pinnedLocationsRef = useRef<Record<string, LocationResult>>({});
+    const searchIdRef = useRef(0);
+    const hasRestoredUrlRef = useRef(false);
+    // The results on screen came from a reroute, not from the searched trip in the URL
+    const isReroutedRef = useRef(false);
+
+    const selectedRoute = routes.find(r => r.id === selectedRouteId);
+
+    // Steps belong to one route; a new selection starts without one highlighted
+    useEffect(() => {
+        setSelectedStepKey(undefined);
+    }, [selectedRouteId]);
+
+    const highlightedStep = useMemo(
+        () => selectedRoute && findDirectionStep(buildDirections(selectedRoute), selectedStepKey),
+        [selectedRoute, selectedStepKey]
+    );
 
-    const handleSearch = async (source: string, destination: string) => {
+    // The search behind the current results; the URL is kept in step with it
+    const runSearch = async (request: SearchRequest, history: 'push' | 'none') => {
+        const searchId = ++searchIdRef.current;
         setIsLoading(true);
         setError(null);
+        setAmbiguousStop(null);
 
         try {
-            const [sourceLoc, destLoc] = await Promise.all([
-                geocodeLocation(source),
-                geocodeLocation(destination)
-            ]);
+            const bias = mapBounds && { bounds: mapBounds };
+            const candidates = await Promise.all(request.stops.map(stop => {
+                const pinned = pinnedLocationsRef.current[stop];
+                return pinned ? [pinned] : geocodeCandidates(stop, bias);
+            }));
+
+            if (candidates.some(matches => matches.length === 0)) {
+                throw new Error("One or more locations could not be found.");
+            }
 
-            if (!sourceLoc || !destLoc) {
-                throw new Error("One or both locations could not be found.");
+            // Ask rather than silently taking the first of several matches
+            const ambiguousIndex = candidates.findIndex(matches => matches.length > 1);
+            if (ambiguousIndex !== -1) {
+                if (searchId !== searchIdRef.current) return;
+                setAmbiguousStop({ request, history, query: request.stops[ambiguousIndex], candidates: candidates[ambiguousIndex] });
+                return;
             }
 
+            const resolved = candidates.map(matches => matches[0]);
+            const sourceLoc = resolved[0];
+            const destLoc = resolved[resolved.length - 1];
+
             const fetchedRoutes = await fetchRoutes(
-                { lat: sourceLoc.lat, lon: sourceLoc.lon },
-                { lat: destLoc.lat, lon: destLoc.lon },
-                travelTime,
-                travelDate
+                resolved.map(loc => ({ lat: loc.lat, lon: loc.lon })),
+                request.time,
+                request.date,
+                { optimizeStops: request.optimizeStops, mode: request.mode }
             );
 
+            // A newer search (or back/forward) has started since
+            if (searchId !== searchIdRef.current) return;
+
             const enrichedRoutes = fetchedRoutes.map(r => ({
                 ...r,
                 source: sourceLoc.display_name,
                 destination: destLoc.display_name
             }));
 
-            const ranked = rankRoutes(enrichedRoutes, selectedProfile, travelTime);
+            // Imported tracks stay for comparison with the new alternatives
+            const imported = routes.filter(isImportedRoute);
+            const ranked = rankRoutes([...enrichedRoutes, ...imported], request.profile, { travelTime: request.time, travelDate: request.date });
+            // A re-route is followed from here on, so it must not land on a recorded track
+            const selected = ranked.find(r => r.id === request.routeId)
+                ?? (request.resultsOnly ? ranked.find(r => !isImportedRoute(r)) : ranked[0]);
+
             setRoutes(ranked);
-            setSelectedRouteId(ranked[0]?.id);
+            setSelectedRouteId(selected?.id);
+            isReroutedRef.current = Boolean(request.resultsOnly);
+            if (request.resultsOnly) return;
+
+            // Optimised stops are visited in the provider's order; the form, link and trip follow it
+            const order = request.optimizeStops ? fetchedRoutes[0]?.geometry?.waypointOrder : undefined;
+            const stops = order
+                ? [request.stops[0], ...order.map(i => request.stops[i + 1]), request.stops[request.stops.length - 1]]
+                : request.stops;
+            if (stops.some((stop, i) => stop !== request.stops[i])) {
+                setRestoredForm(prev => ({ stops, optimizeStops: request.optimizeStops, version: (prev?.version ?? 0) + 1 }));
+            }
+
+            setTravelTime(request.time);
+            setTravelDate(request.date);
+            setTravelMode(request.mode);
+            setSelectedProfile(request.profile);
+            setSearchedTrip({ stops, optimizeStops: request.optimizeStops, mode: request.mode });
+
+            if (history === 'push') {
+                setRecentSearches(addRecentSearch(recentSearches, {
+                    stops,
+                    optimizeStops: request.optimizeStops,
+                    mode: request.mode,
+                    searchedAt: new Date().toISOString()
+                }));
+                writeTripToHistory({
+                    stops,
+                    optimizeStops: request.optimizeStops,
+                    date: request.date,
+                    time: request.time,
+                    mode: request.mode,
+                    profileId: request.profile.id,
+                    routeId: selected && !isImportedRoute(selected) ? selected.id : undefined
+                }, 'push');
+            }
         } catch (err: any) {
+            if (searchId !== searchIdRef.current) return;
             setError(err.message || "Failed to find routes. Please check your locations.");
         } finally {
-            setIsLoading(false);
+            if (searchId === searchIdRef.current) setIsLoading(false);
+        }
+    };
+
+    const handleSearch = (stops: string[], optimizeStops: boolean) => {
+        setComparingTrip(null);
+        runSearch({ stops, optimizeStops, date: travelDate, time: travelTime, mode: travelMode, profile: selectedProfile }, 'push');
+    };
+
+    // Off the route while navigating: plan again from here to the stops not yet reached, leaving
+    // the form and history as they are. Stops come from the route's legs, which are in visiting order.
+    const handleReroute = (position: LatLng, legIndex: number) => {
+        const legs = selectedRoute?.geometry?.legs;
+        if (!legs) return;
+        const now = new Date();
+        runSearch({
+            stops: [position, ...legs.slice(legIndex).map(leg => leg.endLocation)].map(formatCoordinates),
+            optimizeStops: false,
+            date: toLocalDate(now),
+            time: toLocalTime(now),
+            mode: travelMode,
+            profile: selectedProfile,
+            resultsOnly: true
+        }, 'none');
+    };
+
+    // Reruns the search a link (or a saved search) describes, filling the form with its stops
+    const restoreTrip = (trip: NonNullable<ReturnType<typeof parseTripQuery>>, history: 'push' | 'none' = 'none') => {
+        const profile = profiles.find(p => p.id === trip.profileId) ?? selectedProfile;
+        const optimizeStops = Boolean(trip.optimizeStops);
+        setComparingTrip(null);
+        setRestoredForm(prev => ({ stops: trip.stops, optimizeStops, version: (prev?.version ?? 0) + 1 }));
+        runSearch({
+            stops: trip.stops,
+            optimizeStops,
+            date: trip.date ?? travelDate,
+            time: trip.time ?? travelTime,
+            mode: trip.mode ?? travelMode,
+            profile,
+            routeId: trip.routeId
+        }, history);
+    };
+
+    // Back to a page without a trip: drop the search results
+    const clearTrip = () => {
+        searchIdRef.current++;
+        setIsLoading(false);
+        setSearchedTrip(null);
+        setAmbiguousStop(null);
+        setRoutes(prev => prev.filter(isImportedRoute));
+        setSelectedRouteId(undefined);
+    };
+
+    const restoreTripRef = useRef(restoreTrip);
+    restoreTripRef.current = restoreTrip;
+    const clearTripRef = useRef(clearTrip);
+    clearTripRef.current = clearTrip;
+
+    // A shared link is searched once the map script (and with it the router) is ready
+    useEffect(() => {
+        if (!isLoaded || hasRestoredUrlRef.current) return;
+        hasRestoredUrlRef.current = true;
+        const trip = parseTripQuery(window.location.search);
+        if (trip) restoreTripRef.current(trip);
+    }, [isLoaded]);
+
+    useEffect(() => {
+        const handlePopState = () => {
+            const trip = parseTripQuery(window.location.search);
+            if (trip) restoreTripRef.current(trip);
+            else clearTripRef.current();
+        };
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, []);
+
+    // Profile, departure and route changes update the current history entry in place
+    useEffect(() => {
+        if (!searchedTrip || isReroutedRef.current) return;
+        const selected = routes.find(r => r.id === selectedRouteId);
+        writeTripToHistory({
+            ...searchedTrip,
+            date: travelDate,
+            time: travelTime,
+            profileId: selectedProfile.id,
+            routeId: selected && !isImportedRoute(selected) ? selected.id : undefined
+        }, 'replace');
+    }, [searchedTrip, routes, selectedRouteId, selectedProfile, travelDate, travelTime]);
+
+    const handleAddFavourite = (kind: FavouriteKind, address: string, label?: string) => {
+        const place = createFavourite(kind, address, label);
+        const next = [...favourites.filter(f => f.id !== place.id), place];
+        setFavourites(next);
+        saveFavourites(next);
+    };
+
+    const handleRemoveFavourite = (id: string) => {
+        const next = favourites.filter(f => f.id !== id);
+        setFavourites(next);
+        saveFavourites(next);
+    };
+
+    const handleRunRecent = (search: RecentSearch) => {
+        restoreTrip({ stops: search.stops, optimizeStops: search.optimizeStops, mode: search.mode }, 'push');
+    };
+
+    const handleClearRecent = () => {
+        clearRecentSearches();
+        setRecentSearches([]);
+    };
+
+    const updateSavedTrips = (next: SavedTrip[]) => {
+        setSavedTrips(next);
+        saveSavedTrips(next);
+    };
+
+    const handleSaveTrip = (name: string) => {
+        if (!searchedTrip) return;
+        const trip = createSavedTrip(name, {
+            ...searchedTrip,
+            date: travelDate,
+            time: travelTime,
+            profileId: selectedProfile.id,
+            selectedRouteId
+        }, routes.filter(r => !isImportedRoute(r)));
+        updateSavedTrips([trip, ...savedTrips]);
+    };
+
+    // Same inputs and departure time; a date already past moves to today so forecasts exist
+    const handleRerunTrip = (trip: SavedTrip) => {
+        const today = new Date().toISOString().split('T')[0];
+        restoreTrip({
+            stops: trip.stops,
+            optimizeStops: trip.optimizeStops,
+            mode: trip.mode,
+            date: trip.date < today ? today : trip.date,
+            time: trip.time,
+            profileId: trip.profileId,
+            routeId: trip.selectedRouteId
+        }, 'push');
+        setComparingTrip(trip);
+    };
+
+    const handleExportTripData = () => {
+        const contents = exportTripData({ favourites, recent: recentSearches, trips: savedTrips });
+        downloadFile(`smartdrive-trips-${new Date().toISOString().split('T')[0]}.json`, contents, 'application/json');
+    };
+
+    const handleImportTripData = (contents: string) => {
+        const next = importTripData(contents, { favourites, recent: recentSearches, trips: savedTrips });
+        setFavourites(next.favourites);
+        setRecentSearches(next.recent);
+        setSavedTrips(next.trips);
+    };
+
+    const currentTripName = searchedTrip
+        ? `${searchedTrip.stops[0].split(',')[0]} to ${searchedTrip.stops[searchedTrip.stops.length - 1].split(',')[0]}`
+        : undefined;
+
+    const handleCopyLink = async () => {
+        try {
+            await navigator.clipboard.writeText(window.location.href);
+            setIsLinkCopied(true);
+            setTimeout(() => setIsLinkCopied(false), 2000);
+        } catch (error) {
+            console.error("Failed to copy link", error);
+        }
+    };
+
+    const handlePickLocation = (text: string, location: LocationResult) => {
+        pinnedLocationsRef.current[text] = location;
+    };
+
+    const handleResolveAmbiguity = (location: LocationResult) => {
+        if (!ambiguousStop) return;
+        handlePickLocation(ambiguousStop.query, location);
+        runSearch(ambiguousStop.request, ambiguousStop.history);
+    };
+
+    const handleImport = async (fileName: string, contents: string) => {
+        const imported = await importTrackFile(fileName, contents, travelMode, travelTime, travelDate);
+        // Merge into the latest routes: a search may have finished while the track was scored
+        setRoutes(prev => rankRoutes([...prev, ...imported], selectedProfile, { travelTime, travelDate }));
+        setSelectedRouteId(imported[0]?.id);
+    };
+
+    const handleRemoveRoute = (routeId: string) => {
+        const remaining = routes.filter(r => r.id !== routeId);
+        const ranked = remaining.length > 0 ? rankRoutes(remaining, selectedProfile, { travelTime, travelDate }) : [];
+        setRoutes(ranked);
+        if (selectedRouteId === routeId) {
+            setSelectedRouteId(ranked[0]?.id);
+        }
+    };
+
+    const applyProfile = (profile: DrivingProfile) => {
+        setSelectedProfile(profile);
+        if (routes.length > 0) {
+            const ranked = rankRoutes(routes, profile, { travelTime, travelDate });
+            setRoutes(ranked);
+            setSelectedRouteId(ranked[0]?.id);
         }
     };
 
     const handleProfileChange = (profileId: string) => {
-        const profile = PROFILES.find(p => p.id === profileId);
+        const profile = profiles.find(p => p.id === profileId);
         if (profile) {
-            setSelectedProfile(profile);
-            if (routes.length > 0) {
-                const ranked = rankRoutes(routes, profile, travelTime);
-                setRoutes(ranked);
-                setSelectedRouteId(ranked[0]?.id);
-            }
+            applyProfile(profile);
         }
     };
 
-    const handleTimeChange = (time: string) => {
+    const updateProfiles = (next: DrivingProfile[]) => {
+        setProfiles(next);
+        saveCustomProfiles(next);
+    };
+
+    const handleCreateProfile = () => {
+        setEditingProfile(createCustomProfile('My Profile', getProfileWeights(PROFILES[3], travelMode)));
+    };
+
+    const handleDuplicateProfile = (profileId: string) => {
+        const source = profiles.find(p => p.id === profileId);
+        if (!source) return;
+        // Flatten the mode overrides so the sliders show what is actually in effect
+        setEditingProfile(createCustomProfile(`${source.name} copy`, getProfileWeights(source, travelMode), source.description));
+    };
+
+    const handleEditProfile = (profileId: string) => {
+        const profile = profiles.find(p => p.id === profileId);
+        if (profile?.isCustom) setEditingProfile(profile);
+    };
+
+    const handleDeleteProfile = (profileId: string) => {
+        updateProfiles(profiles.filter(p => p.id !== profileId));
+        if (selectedProfile.id === profileId) {
+            applyProfile(PROFILES[1]);
+        }
+    };
+
+    const handleSaveProfile = (profile: DrivingProfile) => {
+        const exists = profiles.some(p => p.id === profile.id);
+        updateProfiles(exists ? profiles.map(p => p.id === profile.id ? profile : p) : [...profiles, profile]);
+        setEditingProfile(null);
+        applyProfile(profile);
+    };
+
+    // Date and time both move the trip relative to sunset, so either one re-ranks
+    const handleDepartureChange = (time: string, date: string) => {
         setTravelTime(time);
+        setTravelDate(date);
         if (routes.length > 0) {
-            const ranked = rankRoutes(routes, selectedProfile, time);
+            const ranked = rankRoutes(routes, selectedProfile, { travelTime: time, travelDate: date });
             setRoutes(ranked);
             setSelectedRouteId(ranked[0]?.id);
         }
     };
 
-    const handleDateChange = (date: string) => {
-        setTravelDate(date);
+    // A slot from the optimiser carries its routes re-evaluated for that departure
+    const handleSelectDeparture = (slot: DepartureSlot) => {
+        setTravelTime(slot.time);
+        setTravelDate(slot.date);
+        setRoutes(slot.routes);
+        setSelectedRouteId(slot.routeId);
+    };
+
+    const handleTimeChange = (time: string) => handleDepartureChange(time, travelDate);
+
+    const handleDateChange = (date: string) => handleDepartureChange(travelTime, date);
+
+    const handleClearCache = async () => {
+        setIsClearingCache(true);
+        try {
+            await clearCache();
+        } catch (error) {
+            console.error("Failed to clear cache", error);
+        } finally {
+            setIsClearingCache(false);
+        }
     };
 
     const fetchNetworkTime = async () => {
@@ -102,8 +506,7 @@ function App() {
                 const minutes = dateObj.getMinutes().toString().padStart(2, '0');
                 const dateStr = dateObj.toISOString().split('T')[0];
 
-                handleTimeChange(`${hours}:${minutes}`);
-                handleDateChange(dateStr);
+                handleDepartureChange(`${hours}:${minutes}`, dateStr);
             }
         } catch (error) {
             console.error("Failed to fetch time", error);
@@ -130,14 +533,39 @@ function App() {
                         </div>
                     </div>
 
-                    {/* Dark Mode Toggle */}
-                    <button
-                        onClick={() => setIsDarkMode(!isDarkMode)}
-                        className="p-2 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
-                        aria-label="Toggle Dark Mode"
-                    >
-                        {isDarkMode ? <Sun size={20} /> : <Moon size={20} />}
-                    </button>
+                    <div className="flex gap-2">
+                        {/* Copy a link that reruns this search */}
+                        {searchedTrip && (
+                            <button
+                                onClick={handleCopyLink}
+                                className="p-2 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+                                aria-label="Copy Trip Link"
+                                title="Copy a link to this trip"
+                            >
+                                {isLinkCopied ? <Check size={20} className="text-green-600" /> : <Link2 size={20} />}
+                            </button>
+                        )}
+
+                        {/* Clear cached map, weather and address data */}
+                        <button
+                            onClick={handleClearCache}
+                            disabled={isClearingCache}
+                            className="p-2 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+                            aria-label="Clear Cache"
+                            title="Clear cached map, weather and address data"
+                        >
+                            {isClearingCache ? <Loader2 size={20} className="animate-spin" /> : <DatabaseZap size={20} />}
+                        </button>
+
+                        {/* Dark Mode Toggle */}
+                        <button
+                            onClick={() => setIsDarkMode(!isDarkMode)}
+                            className="p-2 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+                            aria-label="Toggle Dark Mode"
+                        >
+                            {isDarkMode ? <Sun size={20} /> : <Moon size={20} />}
+                        </button>
+                    </div>
                 </div>
 
                 <div className="space-y-6">
@@ -149,6 +577,27 @@ function App() {
 
                         {/* Time & Date Input */}
                         <div className="mb-4 bg-white dark:bg-slate-800 p-3 rounded-xl border border-gray-200 dark:border-slate-700 shadow-sm space-y-3 transition-colors duration-300">
+                            <div>
+                                <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1.5">
+                                    Travel Mode
+                                </label>
+                                <div className="grid grid-cols-3 gap-1 p-1 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg">
+                                    {TRAVEL_MODES.map(({ id, label, icon: Icon }) => (
+                                        <button
+                                            key={id}
+                                            type="button"
+                                            onClick={() => setTravelMode(id)}
+                                            className={`flex items-center justify-center gap-1.5 py-1.5 rounded-md text-xs font-bold transition-colors ${travelMode === id
+                                                ? 'bg-blue-600 text-white shadow-sm'
+                                                : 'text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+                                        >
+                                            <Icon size={14} />
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
                             <div>
                                 <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1.5 flex justify-between items-center">
                                     <span>Travel Date</span>
@@ -180,11 +629,59 @@ function App() {
                                     className="w-full p-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-sm font-medium text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
                                 />
                             </div>
+
+                            <OfflineDataControl />
                         </div>
 
-                        <InputSection onSearch={handleSearch} isLoading={isLoading} />
+                        <InputSection
+                            key={restoredForm?.version ?? 0}
+                            initialStops={restoredForm?.stops}
+                            initialOptimizeStops={restoredForm?.optimizeStops}
+                            favourites={favourites}
+                            mapBounds={mapBounds}
+                            onPickLocation={handlePickLocation}
+                            onSearch={handleSearch}
+                            isLoading={isLoading}
+                        />
+                        <TrackImport onImport={handleImport} />
+                        <div className="mt-3">
+                            <TripLibrary
+                                favourites={favourites}
+                                recent={recentSearches}
+                                trips={savedTrips}
+                                currentTripName={currentTripName}
+                                onAddFavourite={handleAddFavourite}
+                                onRemoveFavourite={handleRemoveFavourite}
+                                onRunRecent={handleRunRecent}
+                                onClearRecent={handleClearRecent}
+                                onSaveTrip={handleSaveTrip}
+                                onRerunTrip={handleRerunTrip}
+                                onDeleteTrip={(id) => updateSavedTrips(savedTrips.filter(t => t.id !== id))}
+                                onExport={handleExportTripData}
+                                onImport={handleImportTripData}
+                            />
+                        </div>
                     </section>
 
+                    {ambiguousStop && (
+                        <div className="p-4 bg-white dark:bg-slate-800 border border-amber-200 dark:border-amber-700/50 rounded-2xl shadow-sm space-y-2">
+                            <p className="text-sm font-bold text-gray-700 dark:text-gray-200">
+                                Several places match "{ambiguousStop.query}". Which one did you mean?
+                            </p>
+                            {ambiguousStop.candidates.map(candidate => (
+                                <button
+                                    key={`${candidate.lat},${candidate.lon}`}
+                                    type="button"
+                                    onClick={() => handleResolveAmbiguity(candidate)}
+                                    className="w-full flex items-start gap-2 p-2 rounded-lg text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-blue-50 dark:hover:bg-blue-900/30 transition-colors"
+                                >
+                                    <MapPin size={14} className="mt-0.5 shrink-0 text-blue-600 dark:text-blue-400" />
+                                    {candidate.display_name}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
                     {error && (
                         <div className="p-4 bg-gradient-to-r from-red-50 to-orange-50 border border-red-200 text-red-700 rounded-2xl text-sm flex items-start gap-3 animate-in fade-in zoom-in shadow-sm">
                             <span className="text-lg">⚠️</span>
@@ -200,21 +697,108 @@ function App() {
                                     <h2 className="text-sm font-bold text-gray-700 uppercase tracking-wider">Driving Profile</h2>
                                 </div>
                                 <ProfileSelector
-                                    profiles={PROFILES}
+                                    profiles={profiles}
                                     selectedId={selectedProfile.id}
                                     onSelect={handleProfileChange}
+                                    onCreate={handleCreateProfile}
+                                    onDuplicate={handleDuplicateProfile}
+                                    onEdit={handleEditProfile}
+                                    onDelete={handleDeleteProfile}
                                 />
+                                {editingProfile && (
+                                    <ProfileEditor
+                                        key={editingProfile.id}
+                                        profile={editingProfile}
+                                        onSave={handleSaveProfile}
+                                        onCancel={() => setEditingProfile(null)}
+                                    />
+                                )}
                             </section>
 
                             <section>
+                                <div className="flex items-center gap-2 mb-4">
+                                    <Clock size={16} className="text-blue-600" />
+                                    <h2 className="text-sm font-bold text-gray-700 dark:text-gray-300 uppercase tracking-wider">When Should I Leave?</h2>
+                                </div>
+                                <DepartureOptimizer
+                                    routes={routes}
+                                    profile={selectedProfile}
+                                    travelDate={travelDate}
+                                    onSelectDeparture={handleSelectDeparture}
+                                />
+                            </section>
+
+                            <section className="space-y-3">
+                                {comparingTrip && !isLoading && (
+                                    <TripComparison trip={comparingTrip} routes={routes} onClose={() => setComparingTrip(null)} />
+                                )}
+                                <ExportMenu
+                                    routes={routes}
+                                    selectedRouteId={selectedRouteId}
+                                    context={{ profileName: selectedProfile.name, travelDate, travelTime }}
+                                />
                                 <RouteList
                                     routes={routes}
                                     selectedProfile={selectedProfile}
                                     selectedRouteId={selectedRouteId}
                                     onSelectRoute={setSelectedRouteId}
-                                    travelTime={travelTime}
+                                    onRemoveRoute={handleRemoveRoute}
                                 />
                             </section>
+
+                            {routes.length > 1 && (
+                                <section>
+                                    <div className="flex items-center gap-2 mb-4">
+                                        <AreaChart size={16} className="text-blue-600" />
+                                        <h2 className="text-sm font-bold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Compare Along the Way</h2>
+                                    </div>
+                                    <RouteComparisonCharts
+                                        routes={routes}
+                                        selectedRouteId={selectedRouteId}
+                                        onSelectRoute={setSelectedRouteId}
+                                        onCursorChange={setComparisonCursor}
+                                    />
+                                </section>
+                            )}
+
+                            {selectedRoute?.elevation && (
+                                <section>
+                                    <div className="flex items-center gap-2 mb-4">
+                                        <Mountain size={16} className="text-blue-600" />
+                                        <h2 className="text-sm font-bold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Elevation</h2>
+                                    </div>
+                                    <ElevationChart elevation={selectedRoute.elevation} hillinessScore={selectedRoute.hillinessScore} />
+                                </section>
+                            )}
+
+                            {selectedRoute && (
+                                <section>
+                                    <div className="flex items-center gap-2 mb-4">
+                                        <ListOrdered size={16} className="text-blue-600" />
+                                        <h2 className="text-sm font-bold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Directions</h2>
+                                    </div>
+                                    <DirectionsPanel
+                                        route={selectedRoute}
+                                        selectedStepKey={selectedStepKey}
+                                        onSelectStep={setSelectedStepKey}
+                                    />
+                                </section>
+                            )}
+
+                            {selectedRoute?.geometry && !isImportedRoute(selectedRoute) && (
+                                <section>
+                                    <div className="flex items-center gap-2 mb-4">
+                                        <LocateFixed size={16} className="text-blue-600" />
+                                        <h2 className="text-sm font-bold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Navigate</h2>
+                                    </div>
+                                    <NavigationPanel
+                                        route={selectedRoute}
+                                        isRerouting={isLoading}
+                                        onReroute={handleReroute}
+                                        onPositionChange={setNavigationPosition}
+                                    />
+                                </section>
+                            )}
                         </>
                     )}
                 </div>
@@ -228,6 +812,10 @@ function App() {
                         selectedRouteId={selectedRouteId}
                         onSelectRoute={setSelectedRouteId}
                         isDarkMode={isDarkMode}
+                        onBoundsChange={setMapBounds}
+                        highlightedStep={highlightedStep}
+                        navigationPosition={navigationPosition}
+                        comparisonCursor={comparisonCursor}
                     />
                 ) : (
                     <div className="h-full flex flex-col items-center justify-center bg-gradient-to-br from-slate-100 via-blue-50 to-indigo-100 gap-4">
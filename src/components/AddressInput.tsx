@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState } from 'react';
+import { MapPin } from 'lucide-react';
+import { clsx } from 'clsx';
+import { LocationBias } from '../types';
+import { PlaceSuggestion, createSessionToken, getPlaceSuggestions } from '../services/autocompleteService';
+
+interface AddressInputProps {
+    id: string;
+    value: string;
+    onChange: (value: string) => void;
+    onPick?: (suggestion: PlaceSuggestion) => void;
+    placeholder?: string;
+    className?: string;
+    bias?: LocationBias;
+}
+
+const DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 3;
+
+/**
+ * Text input with type-ahead place suggestions. Renders inside the caller's
+ * relatively positioned wrapper so the list lines up with the input.
+ */
+export function AddressInput({ id, value, onChange, onPick, placeholder, className, bias }: AddressInputProps) {
+    const [suggestions, setSuggestions] = useState<PlaceSuggestion[]>([]);
+    const [activeIndex, setActiveIndex] = useState(-1);
+    const [isOpen, setIsOpen] = useState(false);
+    const timerRef = useRef<ReturnType<typeof setTimeout>>();
+    // The latest text asked about, so slower earlier responses are dropped
+    const latestQueryRef = useRef('');
+    const sessionTokenRef = useRef<google.maps.places.AutocompleteSessionToken>();
+
+    useEffect(() => () => clearTimeout(timerRef.current), []);
+
+    const close = () => {
+        clearTimeout(timerRef.current);
+        latestQueryRef.current = '';
+        setIsOpen(false);
+        setActiveIndex(-1);
+    };
+
+    const handleChange = (text: string) => {
+        onChange(text);
+        clearTimeout(timerRef.current);
+        if (text.trim().length < MIN_QUERY_LENGTH) {
+            close();
+            return;
+        }
+
+        timerRef.current = setTimeout(async () => {
+            latestQueryRef.current = text;
+            if (!sessionTokenRef.current) sessionTokenRef.current = createSessionToken();
+            const results = await getPlaceSuggestions(text, bias, sessionTokenRef.current);
+            if (latestQueryRef.current !== text) return;
+            setSuggestions(results);
+            setActiveIndex(-1);
+            setIsOpen(results.length > 0);
+        }, DEBOUNCE_MS);
+    };
+
+    const pick = (suggestion: PlaceSuggestion) => {
+        onChange(suggestion.description);
+        onPick?.(suggestion);
+        // Picking ends the Places session
+        sessionTokenRef.current = undefined;
+        close();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (!isOpen) return;
+
+        switch (e.key) {
+            case 'ArrowDown':
+                e.preventDefault();
+                setActiveIndex(i => (i + 1) % suggestions.length);
+                break;
+            case 'ArrowUp':
+                e.preventDefault();
+                setActiveIndex(i => (i <= 0 ? suggestions.length : i) - 1);
+                break;
+            case 'Enter':
+                // Without a highlighted suggestion Enter submits the form as before
+                if (activeIndex >= 0) {
+                    e.preventDefault();
+                    pick(suggestions[activeIndex]);
+                }
+                break;
+            case 'Escape':
+                e.preventDefault();
+                close();
+                break;
+        }
+    };
+
+    const listId = `${id}-suggestions`;
+
+    return (
+        <>
+            <input
+                id={id}
+                type="text"
+                value={value}
+                onChange={(e) => handleChange(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onBlur={close}
+                placeholder={placeholder}
+                className={className}
+                autoComplete="off"
+                role="combobox"
+                aria-autocomplete="list"
+                aria-expanded={isOpen}
+                aria-controls={listId}
+                aria-activedescendant={activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+            />
+            {isOpen && (
+                <ul
+                    id={listId}
+                    role="listbox"
+                    className="absolute left-0 right-0 top-full mt-1 z-30 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-xl shadow-xl overflow-hidden"
+                >
+                    {suggestions.map((suggestion, index) => (
+                        <li
+                            key={suggestion.id}
+                            id={`${listId}-${index}`}
+                            role="option"
+                            aria-selected={index === activeIndex}
+                            // Before the input's blur, which would close the list first
+                            onMouseDown={(e) => {
+                                e.preventDefault();
+                                pick(suggestion);
+                            }}
+                            onMouseEnter={() => setActiveIndex(index)}
+                            className={clsx(
+                                "flex items-start gap-2 px-3 py-2 cursor-pointer text-sm",
+                                index === activeIndex ? "bg-blue-50 dark:bg-blue-900/30" : "hover:bg-slate-50 dark:hover:bg-slate-700"
+                            )}
+                        >
+                            <MapPin size={14} className="mt-0.5 shrink-0 text-gray-400" />
+                            <span className="min-w-0">
+                                <span className="block font-semibold text-gray-800 dark:text-gray-100 truncate">{suggestion.primary}</span>
+                                {suggestion.secondary && (
+                                    <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">{suggestion.secondary}</span>
+                                )}
+                            </span>
+                        </li>
+                    ))}
+                    {suggestions[0]?.source === 'google' && (
+                        <li className="px-3 py-1 text-right text-[10px] text-gray-400" aria-hidden="true">powered by Google</li>
+                    )}
+                </ul>
+            )}
+        </>
+    );
+}
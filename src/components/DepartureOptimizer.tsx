@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { Clock, Loader2, Star } from 'lucide-react';
+import { clsx } from 'clsx';
+import { DepartureSlot, DrivingProfile, Route } from '../types';
+import { evaluateDepartures, getRecommendedDeparture } from '../services/departureService';
+
+interface DepartureOptimizerProps {
+    routes: Route[];
+    profile: DrivingProfile;
+    travelDate: string;
+    onSelectDeparture: (slot: DepartureSlot) => void;
+}
+
+const STEP_OPTIONS = [15, 30, 60];
+
+const inputClassName = "w-full p-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-sm font-medium text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none";
+
+// Red for the worst slot in the window, green for the best
+function slotColor(score: number, min: number, max: number) {
+    const t = max > min ? (score - min) / (max - min) : 1;
+    return `hsl(${Math.round(t * 120)}, 70%, 48%)`;
+}
+
+function describeSlot(slot: DepartureSlot) {
+    const parts = [`${slot.time}: score ${slot.score}`, `${slot.eta} min`];
+    if (slot.darknessFraction !== undefined) parts.push(`${Math.round(slot.darknessFraction * 100)}% in darkness`);
+    if (slot.weatherRisk !== undefined) parts.push(`weather risk ${slot.weatherRisk}/10`);
+    return parts.join(' · ');
+}
+
+export function DepartureOptimizer({ routes, profile, travelDate, onSelectDeparture }: DepartureOptimizerProps) {
+    const [start, setStart] = useState("17:00");
+    const [end, setEnd] = useState("22:00");
+    const [stepMinutes, setStepMinutes] = useState(30);
+    const [slots, setSlots] = useState<DepartureSlot[]>([]);
+    const [isEvaluating, setIsEvaluating] = useState(false);
+
+    // Results only hold for the routes and weights they were computed with; picking
+    // a slot re-ranks the same routes, which must not clear them
+    const routeKey = routes.map(r => r.id).sort().join('|');
+    const profileKey = `${profile.id}:${JSON.stringify(profile.weights)}`;
+    useEffect(() => {
+        setSlots([]);
+    }, [routeKey, profileKey]);
+
+    const recommended = getRecommendedDeparture(slots);
+    const scores = slots.map(s => s.score);
+    const minScore = Math.min(...scores);
+    const maxScore = Math.max(...scores);
+
+    const handleEvaluate = async () => {
+        setIsEvaluating(true);
+        try {
+            setSlots(await evaluateDepartures(routes, { date: travelDate, start, end, stepMinutes }, profile));
+        } catch (error) {
+            console.error("Departure evaluation failed", error);
+            setSlots([]);
+        } finally {
+            setIsEvaluating(false);
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-3 rounded-xl border border-gray-200 dark:border-slate-700 shadow-sm space-y-3">
+            <div className="grid grid-cols-3 gap-2">
+                <label className="text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    From
+                    <input type="time" value={start} onChange={(e) => setStart(e.target.value)} className={inputClassName} />
+                </label>
+                <label className="text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Until
+                    <input type="time" value={end} onChange={(e) => setEnd(e.target.value)} className={inputClassName} />
+                </label>
+                <label className="text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Every
+                    <select value={stepMinutes} onChange={(e) => setStepMinutes(Number(e.target.value))} className={inputClassName}>
+                        {STEP_OPTIONS.map(minutes => (
+                            <option key={minutes} value={minutes}>{minutes} min</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            <button
+                type="button"
+                onClick={handleEvaluate}
+                disabled={isEvaluating || !start || !end}
+                className="w-full flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-bold text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 disabled:opacity-50 transition-colors"
+            >
+                {isEvaluating ? <Loader2 size={14} className="animate-spin" /> : <Clock size={14} />}
+                {isEvaluating ? "Checking departures..." : "Find the best time to leave"}
+            </button>
+
+            {slots.length > 0 && (
+                <div>
+                    <div className="flex gap-0.5 h-8">
+                        {slots.map(slot => (
+                            <button
+                                key={slot.departure}
+                                type="button"
+                                onClick={() => onSelectDeparture(slot)}
+                                title={describeSlot(slot)}
+                                className={clsx(
+                                    "flex-1 rounded-sm flex items-center justify-center text-white hover:opacity-80 transition-opacity",
+                                    slot === recommended && "ring-2 ring-offset-1 ring-blue-600 dark:ring-offset-slate-800"
+                                )}
+                                style={{ backgroundColor: slotColor(slot.score, minScore, maxScore) }}
+                            >
+                                {slot === recommended && <Star size={12} fill="currentColor" />}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex justify-between mt-1 text-[10px] text-gray-400">
+                        <span>{slots[0].time}</span>
+                        <span>{slots[slots.length - 1].time}</span>
+                    </div>
+                    {recommended && (
+                        <p className="mt-2 text-xs text-gray-600 dark:text-gray-300">
+                            Leave at <span className="font-bold text-gray-900 dark:text-gray-100">{recommended.time}</span>
+                            {' '}for a score of {recommended.score} ({recommended.eta} min
+                            {recommended.darknessFraction !== undefined && <>, {Math.round(recommended.darknessFraction * 100)}% in darkness</>}).
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
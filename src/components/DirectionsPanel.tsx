@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { ArrowUp, ArrowUpLeft, ArrowUpRight, CornerUpLeft, CornerUpRight, Flag, Merge, Moon, RotateCw, Split, Undo2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import { Route } from '../types';
+import { DirectionStep, buildDirections } from '../services/directionsService';
+import { ROAD_CLASS_LABELS } from '../services/roadClassService';
+import { formatDistance, formatDuration } from '../utils/format';
+
+interface DirectionsPanelProps {
+    route: Route;
+    selectedStepKey?: string;
+    onSelectStep: (key: string | undefined) => void;
+}
+
+// Google ("turn-slight-left") and OSRM ("end of road-left") manoeuvre names
+function maneuverIcon(maneuver?: string) {
+    const m = maneuver || '';
+    if (m.includes('arrive')) return Flag;
+    if (m.includes('roundabout') || m.includes('rotary')) return RotateCw;
+    if (m.includes('uturn')) return Undo2;
+    if (m.includes('merge')) return Merge;
+    if (m.includes('fork')) return Split;
+    if (m.includes('slight-left') || m.includes('keep-left')) return ArrowUpLeft;
+    if (m.includes('slight-right') || m.includes('keep-right')) return ArrowUpRight;
+    if (m.includes('left')) return CornerUpLeft;
+    if (m.includes('right')) return CornerUpRight;
+    return ArrowUp;
+}
+
+// Same scale as the lighting overlay on the map
+function lightingClassName(score: number) {
+    if (score >= 8) return "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300";
+    if (score >= 6) return "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300";
+    if (score >= 4) return "bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300";
+    return "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300";
+}
+
+function StepRow({ step, isSelected, onSelect }: { step: DirectionStep, isSelected: boolean, onSelect: () => void }) {
+    const Icon = maneuverIcon(step.maneuver);
+    const roadTitle = step.roadClassSource === 'osm'
+        ? `OSM highway=${step.highway}`
+        : 'Guessed from the instruction';
+
+    return (
+        <li>
+            <button
+                type="button"
+                onClick={onSelect}
+                className={clsx(
+                    "w-full flex items-start gap-3 p-2 rounded-lg text-left transition-colors",
+                    isSelected ? "bg-blue-50 dark:bg-blue-900/30 ring-1 ring-blue-300 dark:ring-blue-700" : "hover:bg-slate-50 dark:hover:bg-slate-700/50"
+                )}
+            >
+                <span className={clsx(
+                    "mt-0.5 p-1.5 rounded-lg shrink-0",
+                    step.isUnlit ? "bg-slate-800 text-amber-300" : "bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300"
+                )}>
+                    <Icon size={14} />
+                </span>
+                <span className="flex-1 min-w-0">
+                    <span className="block text-sm font-medium text-gray-800 dark:text-gray-100">{step.instruction}</span>
+                    <span className="flex flex-wrap items-center gap-1.5 mt-1 text-[10px] font-bold">
+                        <span className="text-gray-500 dark:text-gray-400">{formatDistance(step.distance)} · {formatDuration(step.duration)}</span>
+                        {step.lightingScore !== undefined && (
+                            <span
+                                className={clsx("flex items-center gap-0.5 px-1.5 py-0.5 rounded-full", lightingClassName(step.lightingScore))}
+                                title={step.lightingSource === 'lit_tag' ? 'From OSM lit tags' : 'Estimated from the road type'}
+                            >
+                                {step.isUnlit && <Moon size={10} />}
+                                Light {step.lightingScore}/10
+                            </span>
+                        )}
+                        <span className="px-1.5 py-0.5 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300" title={roadTitle}>
+                            {ROAD_CLASS_LABELS[step.roadClass]}
+                        </span>
+                    </span>
+                </span>
+            </button>
+        </li>
+    );
+}
+
+/**
+ * Turn-by-turn list for one route; picking a step shows it on the map
+ */
+export function DirectionsPanel({ route, selectedStepKey, onSelectStep }: DirectionsPanelProps) {
+    const [unlitOnly, setUnlitOnly] = useState(false);
+
+    const legs = buildDirections(route);
+    const unlitCount = legs.reduce((sum, leg) => sum + leg.steps.filter(s => s.isUnlit).length, 0);
+
+    if (legs.every(leg => leg.steps.length === 0)) {
+        return <p className="text-xs text-gray-500 dark:text-gray-400">No step-by-step directions for this route.</p>;
+    }
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-3 rounded-xl border border-gray-200 dark:border-slate-700 shadow-sm space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {unlitCount > 0 ? `${unlitCount} step${unlitCount === 1 ? '' : 's'} onto unlit roads` : 'No unlit stretches found'}
+                </span>
+                {unlitCount > 0 && (
+                    <label className="flex items-center gap-1.5 text-xs font-semibold text-gray-600 dark:text-gray-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={unlitOnly}
+                            onChange={(e) => setUnlitOnly(e.target.checked)}
+                            className="accent-blue-600"
+                        />
+                        Unlit only
+                    </label>
+                )}
+            </div>
+
+            {legs.map((leg, legIndex) => {
+                const steps = unlitOnly ? leg.steps.filter(s => s.isUnlit) : leg.steps;
+                return (
+                    <div key={legIndex}>
+                        {legs.length > 1 && (
+                            <p className="px-2 pt-1 text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider truncate" title={`${leg.from} → ${leg.to}`}>
+                                Leg {legIndex + 1}: to {leg.to.split(',')[0]}
+                            </p>
+                        )}
+                        <ol className="space-y-0.5">
+                            {steps.map(step => (
+                                <StepRow
+                                    key={step.key}
+                                    step={step}
+                                    isSelected={step.key === selectedStepKey}
+                                    onSelect={() => onSelectStep(step.key === selectedStepKey ? undefined : step.key)}
+                                />
+                            ))}
+                        </ol>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import { ElevationProfile } from '../types';
+
+interface ElevationChartProps {
+    elevation: ElevationProfile;
+    hillinessScore?: number;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 80;
+
+// Stretches coloured by steepness, like the lighting overlay: green easy, red hard
+function gradeColor(grade: number) {
+    if (grade < 3) return "#22c55e";
+    if (grade < 6) return "#eab308";
+    if (grade < 10) return "#f97316";
+    return "#ef4444";
+}
+
+/**
+ * Elevation along the selected route, with its climbs coloured by grade
+ */
+export function ElevationChart({ elevation, hillinessScore }: ElevationChartProps) {
+    const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+    const { samples } = elevation;
+    const totalKm = samples[samples.length - 1]?.distanceKm || 1;
+    const pad = Math.max(5, (elevation.maxElevation - elevation.minElevation) * 0.1);
+    const low = elevation.minElevation - pad;
+    const high = elevation.maxElevation + pad;
+    const x = (km: number) => km / totalKm * CHART_WIDTH;
+    const y = (meters: number) => CHART_HEIGHT - (meters - low) / (high - low) * CHART_HEIGHT;
+
+    const area = [
+        `0,${CHART_HEIGHT}`,
+        ...samples.map(s => `${x(s.distanceKm)},${y(s.elevation)}`),
+        `${CHART_WIDTH},${CHART_HEIGHT}`
+    ].join(' ');
+
+    const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const km = rect.width > 0 ? (e.clientX - rect.left) / rect.width * totalKm : 0;
+        let nearest = 0;
+        samples.forEach((s, i) => {
+            if (Math.abs(s.distanceKm - km) < Math.abs(samples[nearest].distanceKm - km)) nearest = i;
+        });
+        setHoverIndex(nearest);
+    };
+
+    const hovered = hoverIndex !== null ? samples[hoverIndex] : null;
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-3 rounded-xl border border-gray-200 dark:border-slate-700 shadow-sm space-y-2">
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600 dark:text-gray-300">
+                <span className="flex items-center gap-1" title="Total climb">
+                    <TrendingUp size={12} className="text-red-500" />
+                    <span className="font-bold">{elevation.ascent} m</span>
+                </span>
+                <span className="flex items-center gap-1" title="Total descent">
+                    <TrendingDown size={12} className="text-green-600" />
+                    <span className="font-bold">{elevation.descent} m</span>
+                </span>
+                <span>max grade <span className="font-bold">{elevation.maxGrade}%</span></span>
+                {hillinessScore !== undefined && (
+                    <span>hilliness <span className="font-bold">{hillinessScore}/10</span></span>
+                )}
+            </div>
+
+            <svg
+                viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+                preserveAspectRatio="none"
+                className="w-full h-20 bg-slate-50 dark:bg-slate-900/50 rounded-md cursor-crosshair"
+                onMouseMove={handleMouseMove}
+                onMouseLeave={() => setHoverIndex(null)}
+            >
+                <polygon points={area} className="fill-slate-200 dark:fill-slate-700" />
+                {samples.slice(1).map((s, i) => {
+                    const prev = samples[i];
+                    const runM = (s.distanceKm - prev.distanceKm) * 1000;
+                    const grade = runM > 0 ? Math.abs(s.elevation - prev.elevation) / runM * 100 : 0;
+                    return (
+                        <line
+                            key={i}
+                            x1={x(prev.distanceKm)}
+                            y1={y(prev.elevation)}
+                            x2={x(s.distanceKm)}
+                            y2={y(s.elevation)}
+                            stroke={gradeColor(grade)}
+                            strokeWidth={2}
+                            vectorEffect="non-scaling-stroke"
+                        />
+                    );
+                })}
+                {hovered && (
+                    <line
+                        x1={x(hovered.distanceKm)}
+                        x2={x(hovered.distanceKm)}
+                        y1={0}
+                        y2={CHART_HEIGHT}
+                        stroke="#64748b"
+                        strokeDasharray="3 2"
+                        vectorEffect="non-scaling-stroke"
+                    />
+                )}
+            </svg>
+
+            <div className="flex justify-between text-[10px] font-semibold text-gray-400 dark:text-gray-500">
+                <span>{elevation.minElevation}–{elevation.maxElevation} m</span>
+                {hovered
+                    ? <span className="text-gray-600 dark:text-gray-300">{Math.round(hovered.elevation)} m at km {hovered.distanceKm.toFixed(1)}</span>
+                    : <span>{totalKm.toFixed(1)} km</span>}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,50 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Route } from '../types';
+import { EXPORT_FORMATS, ExportContext, ExportFormat, exportRoutes, getExportFilename } from '../services/exportService';
+import { downloadFile } from '../utils/download';
+
+interface ExportMenuProps {
+    routes: Route[];
+    selectedRouteId?: string;
+    context: ExportContext;
+}
+
+export function ExportMenu({ routes, selectedRouteId, context }: ExportMenuProps) {
+    const [includeAll, setIncludeAll] = useState(false);
+
+    const selected = routes.find(r => r.id === selectedRouteId);
+    const toExport = includeAll || !selected ? routes : [selected];
+
+    const handleExport = (format: ExportFormat) => {
+        downloadFile(getExportFilename(format, context), exportRoutes(toExport, format, context), EXPORT_FORMATS[format].mimeType);
+    };
+
+    return (
+        <div className="flex items-center justify-between gap-2 p-2 bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 shadow-sm">
+            <label className="flex items-center gap-1.5 text-xs font-semibold text-gray-600 dark:text-gray-300 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={includeAll}
+                    onChange={(e) => setIncludeAll(e.target.checked)}
+                    className="accent-blue-600"
+                />
+                All routes
+            </label>
+            <div className="flex items-center gap-1">
+                <Download size={14} className="text-gray-400" />
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                    <button
+                        key={format}
+                        type="button"
+                        onClick={() => handleExport(format)}
+                        className="px-2 py-1 rounded-lg text-[10px] font-bold text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30 hover:bg-blue-100 dark:hover:bg-blue-900/50 transition-colors"
+                        title={`Export ${includeAll ? 'all routes' : 'the selected route'} as ${EXPORT_FORMATS[format].label}`}
+                    >
+                        {EXPORT_FORMATS[format].label}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -1,24 +1,99 @@
 import { useState } from 'react';
-import { MapPin, Navigation, X, Search, Locate, Loader2 } from 'lucide-react';
-import { reverseGeocodeOSM } from '../services/osmService';
+import { MapPin, Navigation, X, Search, Locate, Loader2, Plus, ArrowUp, ArrowDown, CircleDot, Shuffle, Home, Briefcase, Star } from 'lucide-react';
+import { FavouritePlace, LatLng, LocationBias } from '../types';
+import { LocationResult, reverseGeocode } from '../services/geocodingService';
+import { AddressInput } from './AddressInput';
+import { PlaceSuggestion, resolveSuggestion } from '../services/autocompleteService';
 
 interface InputSectionProps {
-    onSearch: (source: string, destination: string) => void;
+    // Ordered stops: start, any intermediate stops, destination
+    onSearch: (stops: string[], optimizeStops: boolean) => void;
     isLoading: boolean;
+    // Filled in from a shared link
+    initialStops?: string[];
+    initialOptimizeStops?: boolean;
+    favourites?: FavouritePlace[];
+    // Map viewport, used for suggestions until the user's position is known
+    mapBounds?: LocationBias['bounds'];
+    // A stop's text was resolved to an exact place (picked suggestion, current location)
+    onPickLocation?: (text: string, location: LocationResult) => void;
 }
 
-export function InputSection({ onSearch, isLoading }: InputSectionProps) {
-    const [source, setSource] = useState('');
-    const [destination, setDestination] = useState('');
+const FAVOURITE_ICONS: Record<FavouritePlace['kind'], typeof Star> = {
+    home: Home,
+    work: Briefcase,
+    custom: Star
+};
+
+// A stop row; the id keeps each row's input state with its stop when rows move
+interface StopField {
+    id: number;
+    text: string;
+}
+
+let nextStopId = 0;
+const createStop = (text = ''): StopField => ({ id: nextStopId++, text });
+
+const inputClassName = "w-full pl-12 pr-10 py-3 border-2 border-gray-200 dark:border-slate-600 bg-white dark:bg-slate-900 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all font-medium text-gray-700 dark:text-gray-200 placeholder:text-gray-400 dark:placeholder:text-gray-500";
+const iconButtonClassName = "text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 p-1 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-all disabled:opacity-30 disabled:cursor-not-allowed";
+
+export function InputSection({ onSearch, isLoading, initialStops, initialOptimizeStops = false, favourites = [], mapBounds, onPickLocation }: InputSectionProps) {
+    const [stops, setStops] = useState<StopField[]>(() => (initialStops ?? ['', '']).map(createStop));
+    const [optimizeStops, setOptimizeStops] = useState(initialOptimizeStops);
     const [isLocating, setIsLocating] = useState(false);
+    const [userLocation, setUserLocation] = useState<LatLng | null>(null);
+
+    const bias: LocationBias | undefined = userLocation ? { center: userLocation } : mapBounds && { bounds: mapBounds };
+
+    const isComplete = stops.every(stop => stop.text.trim() !== '');
+
+    const setStop = (index: number, value: string) => {
+        setStops(prev => prev.map((stop, i) => i === index ? { ...stop, text: value } : stop));
+    };
+
+    const setSource = (value: string) => setStop(0, value);
+
+    // Fills the first empty stop, or replaces the destination when all are filled
+    const fillFavourite = (address: string) => {
+        setStops(prev => {
+            const index = prev.findIndex(stop => stop.text.trim() === '');
+            const target = index === -1 ? prev.length - 1 : index;
+            return prev.map((stop, i) => i === target ? { ...stop, text: address } : stop);
+        });
+    };
+
+    const addStop = () => {
+        // New stops go just before the destination
+        setStops(prev => [...prev.slice(0, -1), createStop(), prev[prev.length - 1]]);
+    };
+
+    const removeStop = (index: number) => {
+        setStops(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const moveStop = (index: number, offset: number) => {
+        setStops(prev => {
+            const next = [...prev];
+            const target = index + offset;
+            if (target < 0 || target >= next.length) return prev;
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        if (source && destination) {
-            onSearch(source, destination);
+        if (isComplete) {
+            onSearch(stops.map(stop => stop.text.trim()), optimizeStops && stops.length > 3);
         }
     };
 
+    // Tie the picked text to the exact place, so searching doesn't geocode it again
+    const handlePickSuggestion = async (suggestion: PlaceSuggestion) => {
+        const location = await resolveSuggestion(suggestion);
+        if (location) onPickLocation?.(suggestion.description, location);
+    };
+
     const handleUseLocation = () => {
         console.log("Locate button clicked"); // Debug log
 
@@ -35,22 +110,14 @@ export function InputSection({ onSearch, isLoading }: InputSectionProps) {
             async (position) => {
                 console.log("Position received:", position);
                 const { latitude, longitude } = position.coords;
-                try {
-                    console.log("Reverse geocoding...");
-                    const address = await reverseGeocodeOSM(latitude, longitude);
-                    console.log("Address found:", address);
-                    if (address) {
-                        setSource(address);
-                    } else {
-                        // Fallback to coordinates if address not found
-                        setSource(`${latitude.toFixed(6)}, ${longitude.toFixed(6)}`);
-                    }
-                } catch (error) {
-                    console.error("Error getting location address:", error);
-                    setSource(`${latitude.toFixed(6)}, ${longitude.toFixed(6)}`);
-                } finally {
-                    setIsLocating(false);
-                }
+                setUserLocation({ lat: latitude, lng: longitude });
+                console.log("Reverse geocoding...");
+                // Falls back to the coordinates as text, which the geocoder reads back directly
+                const place = await reverseGeocode({ lat: latitude, lng: longitude });
+                console.log("Address found:", place.display_name);
+                setSource(place.display_name);
+                onPickLocation?.(place.display_name, place);
+                setIsLocating(false);
             },
             (error) => {
                 console.error("Error getting location:", error);
@@ -79,69 +146,137 @@ export function InputSection({ onSearch, isLoading }: InputSectionProps) {
 
     return (
         <form onSubmit={handleSubmit} className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-lg border border-gray-100 dark:border-slate-700 space-y-4 transition-colors duration-300">
-            <div className="space-y-4">
-                <div className="relative group">
-                    <div className="absolute left-4 top-3.5 text-gray-400 group-focus-within:text-blue-600 dark:group-focus-within:text-blue-400 transition-colors">
-                        <MapPin size={20} />
-                    </div>
-                    <input
-                        type="text"
-                        value={source}
-                        onChange={(e) => setSource(e.target.value)}
-                        placeholder="Starting Point (e.g. Mumbai)"
-                        className="w-full pl-12 pr-10 py-3 border-2 border-gray-200 dark:border-slate-600 bg-white dark:bg-slate-900 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all font-medium text-gray-700 dark:text-gray-200 placeholder:text-gray-400 dark:placeholder:text-gray-500"
-                    />
-                    {source ? (
-                        <button
-                            type="button"
-                            onClick={() => setSource('')}
-                            className="absolute right-3 top-3 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 p-1 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-all"
-                        >
-                            <X size={18} />
-                        </button>
-                    ) : (
-                        <button
-                            type="button"
-                            onClick={handleUseLocation}
-                            disabled={isLocating}
-                            className="absolute right-3 top-3 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 p-1 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-all"
-                            title="Use my current location"
-                        >
-                            {isLocating ? (
-                                <Loader2 size={18} className="animate-spin" />
-                            ) : (
-                                <Locate size={18} />
-                            )}
-                        </button>
-                    )}
+            {favourites.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                    {favourites.map(place => {
+                        const Icon = FAVOURITE_ICONS[place.kind];
+                        return (
+                            <button
+                                key={place.id}
+                                type="button"
+                                onClick={() => fillFavourite(place.address)}
+                                className="flex items-center gap-1 text-xs font-bold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 hover:bg-blue-50 hover:text-blue-600 dark:hover:bg-blue-900/30 dark:hover:text-blue-400 px-2.5 py-1 rounded-full transition-colors"
+                                title={place.address}
+                            >
+                                <Icon size={12} />
+                                {place.label}
+                            </button>
+                        );
+                    })}
                 </div>
+            )}
 
-                <div className="relative group">
-                    <div className="absolute left-4 top-3.5 text-gray-400 group-focus-within:text-blue-600 dark:group-focus-within:text-blue-400 transition-colors">
-                        <Navigation size={20} />
-                    </div>
-                    <input
-                        type="text"
-                        value={destination}
-                        onChange={(e) => setDestination(e.target.value)}
-                        placeholder="Destination (e.g. Pune)"
-                        className="w-full pl-12 pr-10 py-3 border-2 border-gray-200 dark:border-slate-600 bg-white dark:bg-slate-900 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all font-medium text-gray-700 dark:text-gray-200 placeholder:text-gray-400 dark:placeholder:text-gray-500"
-                    />
-                    {destination && (
-                        <button
-                            type="button"
-                            onClick={() => setDestination('')}
-                            className="absolute right-3 top-3 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 p-1 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-all"
-                        >
-                            <X size={18} />
-                        </button>
-                    )}
-                </div>
+            <div className="space-y-3">
+                {stops.map((stop, index) => {
+                    const isSource = index === 0;
+                    const isDestination = index === stops.length - 1;
+                    const Icon = isSource ? MapPin : (isDestination ? Navigation : CircleDot);
+                    const placeholder = isSource
+                        ? "Starting Point (e.g. Mumbai)"
+                        : (isDestination ? "Destination (e.g. Pune)" : `Stop ${index}`);
+
+                    return (
+                        <div key={stop.id} className="flex items-center gap-1">
+                            <div className="relative group flex-1">
+                                <div className="absolute left-4 top-3.5 text-gray-400 group-focus-within:text-blue-600 dark:group-focus-within:text-blue-400 transition-colors">
+                                    <Icon size={20} />
+                                </div>
+                                <AddressInput
+                                    id={`stop-${index}`}
+                                    value={stop.text}
+                                    onChange={(value) => setStop(index, value)}
+                                    onPick={handlePickSuggestion}
+                                    placeholder={placeholder}
+                                    className={inputClassName}
+                                    bias={bias}
+                                />
+                                {isSource && !stop.text ? (
+                                    <button
+                                        type="button"
+                                        onClick={handleUseLocation}
+                                        disabled={isLocating}
+                                        className="absolute right-3 top-3 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 p-1 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-all"
+                                        title="Use my current location"
+                                    >
+                                        {isLocating ? (
+                                            <Loader2 size={18} className="animate-spin" />
+                                        ) : (
+                                            <Locate size={18} />
+                                        )}
+                                    </button>
+                                ) : stop.text && (
+                                    <button
+                                        type="button"
+                                        onClick={() => setStop(index, '')}
+                                        className={`absolute right-3 top-3 ${iconButtonClassName}`}
+                                    >
+                                        <X size={18} />
+                                    </button>
+                                )}
+                            </div>
+
+                            {/* Reorder / remove controls */}
+                            <div className="flex flex-col">
+                                <button
+                                    type="button"
+                                    onClick={() => moveStop(index, -1)}
+                                    disabled={isSource}
+                                    className={iconButtonClassName}
+                                    title="Move up"
+                                >
+                                    <ArrowUp size={14} />
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => moveStop(index, 1)}
+                                    disabled={isDestination}
+                                    className={iconButtonClassName}
+                                    title="Move down"
+                                >
+                                    <ArrowDown size={14} />
+                                </button>
+                            </div>
+                            {!isSource && !isDestination && (
+                                <button
+                                    type="button"
+                                    onClick={() => removeStop(index)}
+                                    className={iconButtonClassName}
+                                    title="Remove stop"
+                                >
+                                    <X size={16} />
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="flex items-center justify-between">
+                <button
+                    type="button"
+                    onClick={addStop}
+                    className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 bg-blue-50 dark:bg-blue-900/30 hover:bg-blue-100 dark:hover:bg-blue-900/50 px-3 py-1.5 rounded-full transition-colors"
+                >
+                    <Plus size={14} />
+                    Add stop
+                </button>
+                {stops.length > 3 && (
+                    <label className="flex items-center gap-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={optimizeStops}
+                            onChange={(e) => setOptimizeStops(e.target.checked)}
+                            className="rounded accent-blue-600"
+                        />
+                        <Shuffle size={12} />
+                        Optimise stop order
+                    </label>
+                )}
             </div>
 
             <button
                 type="submit"
-                disabled={isLoading || !source || !destination}
+                disabled={isLoading || !isComplete}
                 className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-bold py-3.5 rounded-xl transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transform hover:scale-[1.02] active:scale-[0.98]"
             >
                 {isLoading ? (
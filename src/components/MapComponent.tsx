@@ -1,5 +1,6 @@
 import { GoogleMap } from '@react-google-maps/api';
-import { Route } from '../types';
+import { LatLng, Route, RouteBounds } from '../types';
+import { isImportedRoute } from '../services/importService';
 import { useState, useEffect, useRef } from 'react';
 
 interface MapComponentProps {
@@ -7,6 +8,13 @@ interface MapComponentProps {
     selectedRouteId?: string;
     onSelectRoute?: (id: string) => void;
     isDarkMode?: boolean;
+    onBoundsChange?: (bounds: RouteBounds) => void;
+    // A step picked in the directions panel
+    highlightedStep?: { path: LatLng[], bounds: RouteBounds };
+    // Where the user is while navigating, snapped to the route
+    navigationPosition?: LatLng;
+    // The hovered distance in the comparison charts, on each route
+    comparisonCursor?: { position: LatLng, color: string }[];
 }
 
 const mapContainerStyle = {
@@ -14,6 +22,14 @@ const mapContainerStyle = {
     width: "100%",
 };
 
+// Colour scale for the selected route's lighting profile (score 2-10)
+const getLightingColor = (score: number): string => {
+    if (score >= 8) return "#22c55e";
+    if (score >= 6) return "#eab308";
+    if (score >= 4) return "#f97316";
+    return "#ef4444";
+};
+
 const lightOptions = {
     disableDefaultUI: true,
     zoomControl: true,
@@ -107,11 +123,14 @@ const darkOptions = {
     ]
 };
 
-export function MapComponent({ routes, selectedRouteId, onSelectRoute, isDarkMode }: MapComponentProps) {
+export function MapComponent({ routes, selectedRouteId, onSelectRoute, isDarkMode, onBoundsChange, highlightedStep, navigationPosition, comparisonCursor }: MapComponentProps) {
     const [map, setMap] = useState<google.maps.Map | null>(null);
     const mapRef = useRef<google.maps.Map | null>(null);
     const polylinesRef = useRef<google.maps.Polyline[]>([]);
     const markersRef = useRef<google.maps.Marker[]>([]);
+    const stepPolylinesRef = useRef<google.maps.Polyline[]>([]);
+    const positionMarkerRef = useRef<google.maps.Marker | null>(null);
+    const cursorMarkersRef = useRef<google.maps.Marker[]>([]);
 
     const options = isDarkMode ? darkOptions : lightOptions;
 
@@ -123,10 +142,21 @@ export function MapComponent({ routes, selectedRouteId, onSelectRoute, isDarkMod
         mapRef.current = map;
     };
 
+    // Reported once panning or zooming settles
+    const onIdle = () => {
+        const bounds = mapRef.current?.getBounds();
+        if (bounds && onBoundsChange) {
+            onBoundsChange(bounds.toJSON());
+        }
+    };
+
     const onUnmount = () => {
         // Cleanup on unmount
         polylinesRef.current.forEach(p => p.setMap(null));
         markersRef.current.forEach(m => m.setMap(null));
+        stepPolylinesRef.current.forEach(p => p.setMap(null));
+        positionMarkerRef.current?.setMap(null);
+        cursorMarkersRef.current.forEach(m => m.setMap(null));
         setMap(null);
         mapRef.current = null;
     };
@@ -136,11 +166,94 @@ export function MapComponent({ routes, selectedRouteId, onSelectRoute, isDarkMod
 
     // Effect: Fit bounds whenever the selected route changes or map loads
     useEffect(() => {
-        if (map && selectedRoute?.googleRoute?.bounds) {
-            map.fitBounds(selectedRoute.googleRoute.bounds);
+        if (map && selectedRoute?.geometry?.bounds) {
+            map.fitBounds(selectedRoute.geometry.bounds);
         }
     }, [map, selectedRoute]);
 
+    // Effect: Zoom to and outline the highlighted step, above the route and its lighting overlay
+    useEffect(() => {
+        stepPolylinesRef.current.forEach(p => p.setMap(null));
+        stepPolylinesRef.current = [];
+        if (!map || !highlightedStep || highlightedStep.path.length === 0) return;
+
+        map.fitBounds(highlightedStep.bounds, 80);
+        if (highlightedStep.path.length > 1) {
+            const outline = new google.maps.Polyline({
+                path: highlightedStep.path,
+                strokeColor: "#ffffff",
+                strokeOpacity: 1.0,
+                strokeWeight: 12,
+                zIndex: 70,
+                clickable: false,
+                map: map
+            });
+            const line = new google.maps.Polyline({
+                path: highlightedStep.path,
+                strokeColor: isDarkMode ? "#fbbf24" : "#d97706",
+                strokeOpacity: 1.0,
+                strokeWeight: 7,
+                zIndex: 71,
+                clickable: false,
+                map: map
+            });
+            stepPolylinesRef.current.push(outline, line);
+        }
+    }, [map, highlightedStep, isDarkMode]);
+
+    // Effect: Follow the navigation position, keeping the map centred on it
+    useEffect(() => {
+        if (!map || !navigationPosition) {
+            positionMarkerRef.current?.setMap(null);
+            positionMarkerRef.current = null;
+            return;
+        }
+
+        if (!positionMarkerRef.current) {
+            positionMarkerRef.current = new google.maps.Marker({
+                icon: {
+                    path: google.maps.SymbolPath.CIRCLE,
+                    scale: 8,
+                    fillColor: "#2563eb",
+                    fillOpacity: 1,
+                    strokeColor: "#ffffff",
+                    strokeWeight: 3
+                },
+                zIndex: 100,
+                clickable: false,
+                map: map
+            });
+        }
+        positionMarkerRef.current.setPosition(navigationPosition);
+        map.panTo(navigationPosition);
+    }, [map, navigationPosition]);
+
+    // Effect: Mark the charts' cursor on every route, in the route's chart colour.
+    // Markers are kept and moved, as this runs on every mouse move over the charts.
+    useEffect(() => {
+        const cursor = map ? comparisonCursor || [] : [];
+        const markers = cursorMarkersRef.current;
+
+        cursor.forEach(({ position, color }, i) => {
+            const icon: google.maps.Symbol = {
+                path: google.maps.SymbolPath.CIRCLE,
+                scale: 6,
+                fillColor: color,
+                fillOpacity: 1,
+                strokeColor: "#ffffff",
+                strokeWeight: 2
+            };
+            if (!markers[i]) {
+                markers[i] = new google.maps.Marker({ position, icon, zIndex: 90, clickable: false, map: map });
+                return;
+            }
+            markers[i].setPosition(position);
+            if ((markers[i].getIcon() as google.maps.Symbol | undefined)?.fillColor !== color) markers[i].setIcon(icon);
+            markers[i].setVisible(true);
+        });
+        markers.slice(cursor.length).forEach(m => m.setVisible(false));
+    }, [map, comparisonCursor]);
+
     // Effect: Imperatively draw polylines and markers
     useEffect(() => {
         if (!map) return;
@@ -153,15 +266,17 @@ export function MapComponent({ routes, selectedRouteId, onSelectRoute, isDarkMod
 
         // 2. DRAW ROUTES (Blue/Cyan for selected, Gray for others)
         routes.forEach(route => {
-            if (!route.googleRoute?.overview_path) return;
+            if (!route.geometry?.path.length) return;
 
             const isSelected = route.id === selectedRouteId;
-            const path = route.googleRoute.overview_path;
+            const path = route.geometry.path;
 
-            // Adjust colors for dark mode visibility
+            // Adjust colors for dark mode visibility; imported tracks in purple
             const strokeColor = isSelected
                 ? (isDarkMode ? "#60a5fa" : "#2563eb") // Lighter Blue in dark mode
-                : (isDarkMode ? "#475569" : "#94a3b8"); // Darker gray in dark mode
+                : isImportedRoute(route)
+                    ? (isDarkMode ? "#c084fc" : "#a855f7")
+                    : (isDarkMode ? "#475569" : "#94a3b8"); // Darker gray in dark mode
 
             const polyline = new google.maps.Polyline({
                 path: path,
@@ -194,22 +309,40 @@ export function MapComponent({ routes, selectedRouteId, onSelectRoute, isDarkMod
             });
 
             polylinesRef.current.push(polyline);
+
+            // Overlay the lighting profile so the dark stretches stand out
+            const samples = route.lighting?.samples;
+            if (isSelected && samples && samples.length > 1) {
+                for (let i = 0; i < samples.length - 1; i++) {
+                    const segmentPath = path.slice(samples[i].pathIndex, samples[i + 1].pathIndex + 1);
+                    if (segmentPath.length < 2) continue;
+
+                    const segment = new google.maps.Polyline({
+                        path: segmentPath,
+                        strokeColor: getLightingColor((samples[i].score + samples[i + 1].score) / 2),
+                        strokeOpacity: 1.0,
+                        strokeWeight: 6,
+                        zIndex: 60,
+                        clickable: false,
+                        map: map
+                    });
+                    polylinesRef.current.push(segment);
+                }
+            }
         });
 
-        // 3. DRAW MARKERS (Start and End for selected only)
-        if (selectedRoute?.googleRoute?.legs?.[0]) {
-            const startMarker = new google.maps.Marker({
-                position: selectedRoute.googleRoute.legs[0].start_location,
-                label: { text: "A", color: "white", fontWeight: "bold" },
-                map: map
+        // 3. DRAW MARKERS (A, B, C... at every stop of the selected route)
+        const legs = selectedRoute?.geometry?.legs;
+        if (legs && legs.length > 0) {
+            const stopLocations = [legs[0].startLocation, ...legs.map(leg => leg.endLocation)];
+            stopLocations.forEach((position, index) => {
+                const marker = new google.maps.Marker({
+                    position,
+                    label: { text: String.fromCharCode(65 + index), color: "white", fontWeight: "bold" },
+                    map: map
+                });
+                markersRef.current.push(marker);
             });
-            const endMarker = new google.maps.Marker({
-                position: selectedRoute.googleRoute.legs[0].end_location,
-                label: { text: "B", color: "white", fontWeight: "bold" },
-                map: map
-            });
-
-            markersRef.current.push(startMarker, endMarker);
         }
 
     }, [map, routes, selectedRouteId, selectedRoute, onSelectRoute, isDarkMode]); // Added isDarkMode dependency
@@ -221,6 +354,7 @@ export function MapComponent({ routes, selectedRouteId, onSelectRoute, isDarkMod
                 zoom={10}
                 center={{ lat: 20.5937, lng: 78.9629 }}
                 onLoad={onLoad}
+                onIdle={onIdle}
                 onUnmount={onUnmount}
                 options={options}
             >
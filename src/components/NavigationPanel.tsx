@@ -0,0 +1,217 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Flag, Loader2, LocateFixed, Play, Square } from 'lucide-react';
+import { clsx } from 'clsx';
+import { LatLng, Route } from '../types';
+import { NavigationProgress, createRouteTracker } from '../services/navigationService';
+import { PositionSource, createReplaySource, geolocationSource } from '../services/positionSources';
+import { ImportedTrack, parseTrackFile } from '../services/importService';
+import { formatDistance, formatDuration } from '../utils/format';
+
+interface NavigationPanelProps {
+    route: Route;
+    isRerouting: boolean;
+    // Left the route: plan again from here to the stops after this leg
+    onReroute: (position: LatLng, legIndex: number) => void;
+    onPositionChange: (position: LatLng | undefined) => void;
+}
+
+const REPLAY_SPEEDS = [1, 5, 20];
+
+function formatClock(date: Date) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Follows the selected route from the device's position, or from a recorded
+ * track replayed as if it were live
+ */
+export function NavigationPanel({ route, isRerouting, onReroute, onPositionChange }: NavigationPanelProps) {
+    const [sourceKind, setSourceKind] = useState<'gps' | 'replay'>('gps');
+    const [replayTrack, setReplayTrack] = useState<ImportedTrack | null>(null);
+    const [replaySpeed, setReplaySpeed] = useState(REPLAY_SPEEDS[1]);
+    const [isNavigating, setIsNavigating] = useState(false);
+    const [progress, setProgress] = useState<NavigationProgress | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // A new route (after re-planning, say) gets a fresh tracker without restarting the feed
+    const tracker = useMemo(() => createRouteTracker(route), [route]);
+    const trackerRef = useRef(tracker);
+    trackerRef.current = tracker;
+    const hasRequestedRerouteRef = useRef(false);
+
+    useEffect(() => {
+        hasRequestedRerouteRef.current = false;
+        setProgress(null);
+    }, [tracker]);
+
+    const source: PositionSource | null = sourceKind === 'gps'
+        ? geolocationSource
+        : replayTrack && createReplaySource(replayTrack, replaySpeed);
+    const sourceRef = useRef(source);
+    sourceRef.current = source;
+
+    useEffect(() => {
+        if (!isNavigating || !sourceRef.current) return;
+        const stop = sourceRef.current.watch(
+            fix => setProgress(trackerRef.current.update(fix)),
+            message => {
+                setError(message);
+                setIsNavigating(false);
+            }
+        );
+        return stop;
+    }, [isNavigating]);
+
+    useEffect(() => {
+        onPositionChange(isNavigating ? progress?.snapped : undefined);
+    }, [isNavigating, progress, onPositionChange]);
+
+    useEffect(() => {
+        if (!isNavigating || !progress?.isOffRoute || isRerouting || hasRequestedRerouteRef.current) return;
+        hasRequestedRerouteRef.current = true;
+        onReroute(progress.position, progress.legIndex);
+    }, [isNavigating, progress, isRerouting, onReroute]);
+
+    useEffect(() => {
+        if (progress?.hasArrived) setIsNavigating(false);
+    }, [progress?.hasArrived]);
+
+    const handleTrackFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const [track] = parseTrackFile(file.name, await file.text());
+            if (!track) throw new Error("No track found in the file");
+            setReplayTrack(track);
+            setError(null);
+        } catch (err: any) {
+            setError(err.message || "Could not read the track");
+        }
+    };
+
+    const start = () => {
+        hasRequestedRerouteRef.current = false;
+        setProgress(null);
+        setError(null);
+        setIsNavigating(true);
+    };
+
+    const stop = () => setIsNavigating(false);
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-3 rounded-xl border border-gray-200 dark:border-slate-700 shadow-sm space-y-3">
+            {!isNavigating && (
+                <div className="space-y-2">
+                    <div className="flex gap-1 p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg">
+                        {(['gps', 'replay'] as const).map(kind => (
+                            <button
+                                key={kind}
+                                type="button"
+                                onClick={() => setSourceKind(kind)}
+                                className={clsx(
+                                    "flex-1 py-1.5 rounded-md text-xs font-bold transition-colors",
+                                    sourceKind === kind ? "bg-white dark:bg-slate-800 text-blue-600 dark:text-blue-400 shadow-sm" : "text-gray-500 dark:text-gray-400"
+                                )}
+                            >
+                                {kind === 'gps' ? 'Live GPS' : 'Replay a track'}
+                            </button>
+                        ))}
+                    </div>
+
+                    {sourceKind === 'replay' && (
+                        <div className="flex items-center gap-2">
+                            <label className="flex-1 min-w-0 truncate px-2 py-1.5 rounded-lg border border-dashed border-gray-300 dark:border-slate-600 text-xs font-semibold text-gray-500 dark:text-gray-400 hover:border-blue-400 cursor-pointer">
+                                {replayTrack ? replayTrack.name : "Choose a GPX, KML or GeoJSON file"}
+                                <input type="file" accept=".gpx,.kml,.json,.geojson" onChange={handleTrackFile} className="hidden" />
+                            </label>
+                            <select
+                                value={replaySpeed}
+                                onChange={(e) => setReplaySpeed(Number(e.target.value))}
+                                className="px-2 py-1.5 rounded-lg border border-gray-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-xs font-semibold text-gray-700 dark:text-gray-200"
+                                title="Replay speed"
+                            >
+                                {REPLAY_SPEEDS.map(speed => <option key={speed} value={speed}>{speed}×</option>)}
+                            </select>
+                        </div>
+                    )}
+
+                    <button
+                        type="button"
+                        onClick={start}
+                        disabled={!source}
+                        className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-bold transition-colors"
+                    >
+                        <Play size={14} />
+                        Start navigation
+                    </button>
+                </div>
+            )}
+
+            {isNavigating && !progress && (
+                <p className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    <LocateFixed size={14} className="animate-pulse text-blue-600" />
+                    Waiting for a position...
+                </p>
+            )}
+
+            {progress && (
+                <div className="space-y-2">
+                    {progress.hasArrived ? (
+                        <p className="flex items-center gap-2 text-sm font-bold text-green-700 dark:text-green-400">
+                            <Flag size={14} />
+                            You have arrived
+                        </p>
+                    ) : progress.nextStep && (
+                        <div className="p-2 rounded-lg bg-blue-50 dark:bg-blue-900/30">
+                            <p className="text-[10px] font-bold text-blue-600 dark:text-blue-400 uppercase tracking-wider">
+                                In {formatDistance(progress.metersToNextStep ?? 0)}
+                            </p>
+                            <p className="text-sm font-medium text-gray-800 dark:text-gray-100">{progress.nextStep.instruction}</p>
+                        </div>
+                    )}
+
+                    <div className="h-1.5 rounded-full bg-slate-100 dark:bg-slate-700 overflow-hidden">
+                        <div className="h-full bg-blue-600 transition-all" style={{ width: `${Math.round(progress.fraction * 100)}%` }} />
+                    </div>
+                    <div className="flex justify-between text-xs font-semibold text-gray-600 dark:text-gray-300">
+                        <span>{formatDistance(progress.remainingKm * 1000)} left</span>
+                        <span>{formatDuration(progress.remainingSeconds)} · arrive {formatClock(new Date(Date.now() + progress.remainingSeconds * 1000))}</span>
+                    </div>
+
+                    {isNavigating && progress.isOffRoute && (
+                        <div className="flex items-center gap-2 p-2 rounded-lg bg-amber-50 dark:bg-amber-900/30 text-xs font-semibold text-amber-700 dark:text-amber-300">
+                            {isRerouting ? <Loader2 size={14} className="animate-spin shrink-0" /> : <AlertTriangle size={14} className="shrink-0" />}
+                            <span className="flex-1">
+                                {isRerouting ? "Off route, finding a new one..." : `${formatDistance(progress.offRouteKm * 1000)} off the route`}
+                            </span>
+                            {!isRerouting && (
+                                <button
+                                    type="button"
+                                    onClick={() => onReroute(progress.position, progress.legIndex)}
+                                    className="underline"
+                                >
+                                    Re-plan
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {isNavigating && (
+                <button
+                    type="button"
+                    onClick={stop}
+                    className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-gray-700 dark:text-gray-200 text-sm font-bold transition-colors"
+                >
+                    <Square size={14} />
+                    Stop
+                </button>
+            )}
+
+            {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+    );
+}
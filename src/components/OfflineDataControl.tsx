@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { Download, HardDrive, Loader2, Upload, X } from 'lucide-react';
+import { LocalExtractInfo, getLocalExtractInfo, loadLocalExtract, serializeLocalExtract, unloadLocalExtract } from '../services/localOsmSource';
+import { downloadFile } from '../utils/download';
+
+const actionClassName = "flex items-center gap-1 text-[10px] font-bold text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30 hover:bg-blue-100 dark:hover:bg-blue-900/50 px-2 py-0.5 rounded-full transition-colors cursor-pointer";
+
+/**
+ * Loads a regional OSM extract so lighting, activity and cities are scored without Overpass
+ */
+export function OfflineDataControl() {
+    const [info, setInfo] = useState<LocalExtractInfo | null>(getLocalExtractInfo);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setIsLoading(true);
+        setError(null);
+        try {
+            setInfo(loadLocalExtract(file.name, await file.text()));
+        } catch (err: any) {
+            setError(err.message || "Could not read the extract");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleUnload = () => {
+        unloadLocalExtract();
+        setInfo(null);
+    };
+
+    // Saves the compact index, which is quicker to load next time
+    const handleSaveIndex = () => {
+        const contents = serializeLocalExtract();
+        if (!contents || !info) return;
+        downloadFile(`${info.name.replace(/\.[^.]+$/, '')}.index.json`, contents, 'application/json');
+    };
+
+    return (
+        <div>
+            <div className="flex justify-between items-center">
+                <span className="flex items-center gap-1.5 text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    <HardDrive size={12} />
+                    Offline Map Data
+                </span>
+                {info ? (
+                    <span className="flex gap-1">
+                        <button type="button" onClick={handleSaveIndex} className={actionClassName} title="Save as a compact index">
+                            <Download size={10} />
+                            Index
+                        </button>
+                        <button type="button" onClick={handleUnload} className={actionClassName}>
+                            <X size={10} />
+                            Unload
+                        </button>
+                    </span>
+                ) : (
+                    <label className={actionClassName}>
+                        {isLoading ? <Loader2 size={10} className="animate-spin" /> : <Upload size={10} />}
+                        {isLoading ? "Loading..." : "Load extract"}
+                        <input type="file" accept=".json,.geojson" onChange={handleFile} className="hidden" disabled={isLoading} />
+                    </label>
+                )}
+            </div>
+            {info && (
+                <p className="mt-1 text-[10px] text-gray-500 dark:text-gray-400 truncate" title={info.name}>
+                    Scoring from {info.name}: {info.ways.toLocaleString()} ways, {info.nodes.toLocaleString()} places
+                </p>
+            )}
+            {error && <p className="mt-1 text-[10px] text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+    );
+}
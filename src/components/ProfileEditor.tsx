@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { DrivingProfile } from '../types';
+import { CRITERIA } from '../services/routeService';
+
+interface ProfileEditorProps {
+    profile: DrivingProfile;
+    onSave: (profile: DrivingProfile) => void;
+    onCancel: () => void;
+}
+
+export function ProfileEditor({ profile, onSave, onCancel }: ProfileEditorProps) {
+    const [name, setName] = useState(profile.name);
+    const [description, setDescription] = useState(profile.description);
+    const [weights, setWeights] = useState(profile.weights);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        onSave({ ...profile, name: name.trim(), description: description.trim(), weights });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="mt-3 bg-white dark:bg-slate-800 p-4 rounded-2xl border-2 border-blue-200 dark:border-blue-900 shadow-lg space-y-3">
+            <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Profile name"
+                className="w-full p-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-sm font-bold text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Short description"
+                className="w-full p-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-xs text-slate-600 dark:text-slate-300 focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+
+            {CRITERIA.map(({ key, label }) => (
+                <div key={key}>
+                    <div className="flex justify-between text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">
+                        <span>{label}</span>
+                        <span className="text-blue-600 dark:text-blue-400">{weights[key]}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={0}
+                        max={10}
+                        step={1}
+                        value={weights[key]}
+                        onChange={(e) => setWeights(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                        className="w-full accent-blue-600"
+                    />
+                </div>
+            ))}
+
+            <div className="flex justify-end gap-2 pt-1">
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors"
+                >
+                    <X size={14} />
+                    Cancel
+                </button>
+                <button
+                    type="submit"
+                    disabled={!name.trim()}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 disabled:opacity-50 transition-colors"
+                >
+                    <Check size={14} />
+                    Save
+                </button>
+            </div>
+        </form>
+    );
+}
@@ -7,52 +7,88 @@ interface ProfileSelectorProps {
     profiles: DrivingProfile[];
     selectedId: string;
     onSelect: (id: string) => void;
+    onCreate?: () => void;
+    onDuplicate?: (id: string) => void;
+    onEdit?: (id: string) => void;
+    onDelete?: (id: string) => void;
 }
 
-export function ProfileSelector({ profiles, selectedId, onSelect }: ProfileSelectorProps) {
+const actionClassName = "flex items-center gap-1 text-[10px] font-bold text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 px-2 py-1 rounded-full hover:bg-blue-50 dark:hover:bg-blue-900/30 transition-colors";
+
+export function ProfileSelector({ profiles, selectedId, onSelect, onCreate, onDuplicate, onEdit, onDelete }: ProfileSelectorProps) {
+    const selected = profiles.find(p => p.id === selectedId);
+
     return (
-        <div className="grid grid-cols-3 gap-3">
-            {profiles.map((profile) => {
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const Icon = (Icons as any)[profile.icon] || Icons.Car;
-                const isSelected = selectedId === profile.id;
+        <div>
+            <div className="grid grid-cols-3 gap-3">
+                {profiles.map((profile) => {
+                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                    const Icon = (Icons as any)[profile.icon] || Icons.Car;
+                    const isSelected = selectedId === profile.id;
 
-                return (
-                    <button
-                        key={profile.id}
-                        onClick={() => onSelect(profile.id)}
-                        className={clsx(
-                            "flex flex-col items-center p-4 rounded-2xl border-2 transition-all duration-300 text-center hover:scale-105 active:scale-95 relative overflow-hidden group",
-                            isSelected
-                                ? "border-blue-500 bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-900/40 dark:to-indigo-900/40 shadow-lg ring-2 ring-blue-200 dark:ring-blue-800"
-                                : "border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 hover:border-blue-300 dark:hover:border-slate-500 hover:shadow-md"
-                        )}
-                    >
-                        {isSelected && (
-                            <div className="absolute inset-0 bg-gradient-to-br from-blue-500/10 to-indigo-500/10 dark:from-blue-400/10 dark:to-indigo-400/10"></div>
-                        )}
-                        <div className={clsx(
-                            "p-3 rounded-xl mb-2 relative z-10 transition-all",
-                            isSelected
-                                ? "bg-gradient-to-br from-blue-500 to-indigo-600 text-white shadow-md"
-                                : "bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-gray-300 group-hover:bg-blue-100 dark:group-hover:bg-slate-600 group-hover:text-blue-600 dark:group-hover:text-blue-400"
-                        )}>
-                            <Icon size={22} strokeWidth={2.5} />
-                        </div>
-                        <div className="relative z-10">
-                            <span className={clsx(
-                                "block font-bold text-xs mb-1",
-                                isSelected ? "text-blue-700 dark:text-blue-300" : "text-gray-700 dark:text-gray-300"
+                    return (
+                        <button
+                            key={profile.id}
+                            onClick={() => onSelect(profile.id)}
+                            className={clsx(
+                                "flex flex-col items-center p-4 rounded-2xl border-2 transition-all duration-300 text-center hover:scale-105 active:scale-95 relative overflow-hidden group",
+                                isSelected
+                                    ? "border-blue-500 bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-900/40 dark:to-indigo-900/40 shadow-lg ring-2 ring-blue-200 dark:ring-blue-800"
+                                    : "border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 hover:border-blue-300 dark:hover:border-slate-500 hover:shadow-md"
+                            )}
+                        >
+                            {isSelected && (
+                                <div className="absolute inset-0 bg-gradient-to-br from-blue-500/10 to-indigo-500/10 dark:from-blue-400/10 dark:to-indigo-400/10"></div>
+                            )}
+                            <div className={clsx(
+                                "p-3 rounded-xl mb-2 relative z-10 transition-all",
+                                isSelected
+                                    ? "bg-gradient-to-br from-blue-500 to-indigo-600 text-white shadow-md"
+                                    : "bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-gray-300 group-hover:bg-blue-100 dark:group-hover:bg-slate-600 group-hover:text-blue-600 dark:group-hover:text-blue-400"
                             )}>
-                                {profile.name.replace('_', ' ')}
-                            </span>
-                            <span className="text-[10px] opacity-70 line-clamp-2 leading-tight dark:text-gray-400">
-                                {profile.description}
-                            </span>
-                        </div>
-                    </button>
-                );
-            })}
+                                <Icon size={22} strokeWidth={2.5} />
+                            </div>
+                            <div className="relative z-10">
+                                <span className={clsx(
+                                    "block font-bold text-xs mb-1",
+                                    isSelected ? "text-blue-700 dark:text-blue-300" : "text-gray-700 dark:text-gray-300"
+                                )}>
+                                    {profile.name.replace('_', ' ')}
+                                </span>
+                                <span className="text-[10px] opacity-70 line-clamp-2 leading-tight dark:text-gray-400">
+                                    {profile.description}
+                                </span>
+                            </div>
+                        </button>
+                    );
+                })}
+            </div>
+
+            {/* Custom profile management */}
+            {(onCreate || onDuplicate || onEdit || onDelete) && (
+                <div className="flex flex-wrap justify-end gap-1 mt-2">
+                    {onCreate && (
+                        <button type="button" onClick={onCreate} className={actionClassName}>
+                            <Icons.Plus size={12} /> New
+                        </button>
+                    )}
+                    {onDuplicate && selected && (
+                        <button type="button" onClick={() => onDuplicate(selected.id)} className={actionClassName}>
+                            <Icons.Copy size={12} /> Duplicate
+                        </button>
+                    )}
+                    {onEdit && selected?.isCustom && (
+                        <button type="button" onClick={() => onEdit(selected.id)} className={actionClassName}>
+                            <Icons.Pencil size={12} /> Edit
+                        </button>
+                    )}
+                    {onDelete && selected?.isCustom && (
+                        <button type="button" onClick={() => onDelete(selected.id)} className={clsx(actionClassName, "hover:text-red-600 dark:hover:text-red-400")}>
+                            <Icons.Trash2 size={12} /> Delete
+                        </button>
+                    )}
+                </div>
+            )}
         </div>
     );
 }
@@ -0,0 +1,237 @@
+import { useEffect, useMemo, useState } from 'react';
+import { clsx } from 'clsx';
+import { LatLng, RoadClass, Route } from '../types';
+import { RouteSeries, SeriesPoint, buildRouteSeries, positionAtKm, roadClassAtKm, valueAtKm } from '../services/comparisonService';
+import { ROAD_CLASS_LABELS } from '../services/roadClassService';
+
+export interface ComparisonCursor {
+    position: LatLng;
+    color: string;
+}
+
+interface RouteComparisonChartsProps {
+    routes: Route[];
+    selectedRouteId?: string;
+    onSelectRoute: (id: string) => void;
+    // Where the hovered distance falls on each route, for the map
+    onCursorChange: (cursor: ComparisonCursor[] | undefined) => void;
+}
+
+// One colour per alternative, shared by the lines and the map markers
+const ROUTE_COLORS = ["#2563eb", "#f97316", "#10b981", "#a855f7", "#ef4444", "#0891b2"];
+
+const ROAD_CLASS_COLORS: Record<RoadClass, string> = {
+    motorway: "#6366f1",
+    primary: "#60a5fa",
+    residential: "#34d399",
+    unclassified: "#fbbf24"
+};
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 60;
+
+const routeColor = (index: number) => ROUTE_COLORS[index % ROUTE_COLORS.length];
+
+// Hover position as km along the shared axis
+function kmFromPointer(e: React.MouseEvent<SVGSVGElement>, maxKm: number) {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = rect.width > 0 ? (e.clientX - rect.left) / rect.width : 0;
+    return Math.max(0, Math.min(1, fraction)) * maxKm;
+}
+
+interface ChartFrameProps {
+    title: string;
+    maxKm: number;
+    height?: number;
+    cursorKm?: number;
+    onCursor: (km: number | undefined) => void;
+    children: React.ReactNode;
+}
+
+function ChartFrame({ title, maxKm, height = CHART_HEIGHT, cursorKm, onCursor, children }: ChartFrameProps) {
+    return (
+        <div>
+            <p className="text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">{title}</p>
+            <svg
+                viewBox={`0 0 ${CHART_WIDTH} ${height}`}
+                preserveAspectRatio="none"
+                className="w-full bg-slate-50 dark:bg-slate-900/50 rounded-md cursor-crosshair"
+                style={{ height }}
+                onMouseMove={(e) => onCursor(kmFromPointer(e, maxKm))}
+                onMouseLeave={() => onCursor(undefined)}
+            >
+                {children}
+                {cursorKm !== undefined && (
+                    <line
+                        x1={cursorKm / maxKm * CHART_WIDTH}
+                        x2={cursorKm / maxKm * CHART_WIDTH}
+                        y1={0}
+                        y2={height}
+                        stroke="#64748b"
+                        strokeDasharray="3 2"
+                        vectorEffect="non-scaling-stroke"
+                    />
+                )}
+            </svg>
+        </div>
+    );
+}
+
+interface LineChartProps extends Omit<ChartFrameProps, 'children'> {
+    series: { points: SeriesPoint[], color: string, isSelected: boolean }[];
+    range: [number, number];
+}
+
+function LineChart({ series, range, ...frame }: LineChartProps) {
+    const [min, max] = range;
+    const y = (value: number) => CHART_HEIGHT - (max > min ? (value - min) / (max - min) : 0.5) * CHART_HEIGHT;
+
+    return (
+        <ChartFrame {...frame}>
+            {series.map(({ points, color, isSelected }, i) => points.length > 0 && (
+                <polyline
+                    key={i}
+                    points={points.map(p => `${p.km / frame.maxKm * CHART_WIDTH},${y(p.value)}`).join(' ')}
+                    fill="none"
+                    stroke={color}
+                    strokeWidth={isSelected ? 2.5 : 1.5}
+                    strokeOpacity={isSelected ? 1 : 0.7}
+                    vectorEffect="non-scaling-stroke"
+                />
+            ))}
+        </ChartFrame>
+    );
+}
+
+// Low and high end of the values, padded so flat lines don't sit on the edges
+function valueRange(all: RouteSeries[], pick: (s: RouteSeries) => SeriesPoint[], floor?: number): [number, number] {
+    const values = all.flatMap(s => pick(s).map(p => p.value));
+    if (values.length === 0) return [0, 1];
+    const min = floor ?? Math.min(...values);
+    const max = Math.max(...values);
+    const pad = Math.max(1, (max - min) * 0.1);
+    return [floor ?? min - pad, max + pad];
+}
+
+/**
+ * All alternatives plotted against distance travelled, with one cursor across
+ * every chart that also marks the point on each route on the map
+ */
+export function RouteComparisonCharts({ routes, selectedRouteId, onSelectRoute, onCursorChange }: RouteComparisonChartsProps) {
+    const [cursorKm, setCursorKm] = useState<number | undefined>();
+
+    const allSeries = useMemo(() => routes.map(buildRouteSeries), [routes]);
+    const maxKm = Math.max(...allSeries.map(s => s.totalKm), 0.1);
+
+    const lines = (pick: (s: RouteSeries) => SeriesPoint[]) => allSeries.map((s, i) => ({
+        points: pick(s),
+        color: routeColor(i),
+        isSelected: s.routeId === selectedRouteId
+    }));
+    const hasAny = (pick: (s: RouteSeries) => unknown[]) => allSeries.some(s => pick(s).length > 0);
+
+    useEffect(() => {
+        if (cursorKm === undefined) {
+            onCursorChange(undefined);
+            return;
+        }
+        onCursorChange(routes.flatMap((route, i) => {
+            const position = positionAtKm(route, cursorKm);
+            return position ? [{ position, color: routeColor(i) }] : [];
+        }));
+    }, [cursorKm, routes, onCursorChange]);
+
+    // Nothing to leave on the map once the charts go away
+    useEffect(() => () => onCursorChange(undefined), [onCursorChange]);
+
+    const frame = { maxKm, cursorKm, onCursor: setCursorKm };
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-3 rounded-xl border border-gray-200 dark:border-slate-700 shadow-sm space-y-3">
+            <div className="flex flex-wrap gap-1.5">
+                {routes.map((route, i) => (
+                    <button
+                        key={route.id}
+                        type="button"
+                        onClick={() => onSelectRoute(route.id)}
+                        title={route.description}
+                        className={clsx(
+                            "flex items-center gap-1.5 px-2 py-1 rounded-full text-[10px] font-bold border transition-colors",
+                            route.id === selectedRouteId
+                                ? "border-blue-300 dark:border-blue-700 bg-blue-50 dark:bg-blue-900/30 text-gray-800 dark:text-gray-100"
+                                : "border-gray-200 dark:border-slate-700 text-gray-600 dark:text-gray-300 hover:bg-slate-50 dark:hover:bg-slate-700/50"
+                        )}
+                    >
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: routeColor(i) }} />
+                        Route {i + 1} · {route.distance} km
+                    </button>
+                ))}
+            </div>
+
+            {hasAny(s => s.lighting) && (
+                <LineChart title="Lighting (2-10)" series={lines(s => s.lighting)} range={[0, 10]} {...frame} />
+            )}
+
+            {hasAny(s => s.roadClasses) && (
+                <ChartFrame title="Road class" height={allSeries.length * 10} {...frame}>
+                    {allSeries.map((s, row) => s.roadClasses.map((stretch, i) => (
+                        <rect
+                            key={`${row}-${i}`}
+                            x={stretch.startKm / maxKm * CHART_WIDTH}
+                            y={row * 10 + 1}
+                            width={Math.max(0.5, (stretch.endKm - stretch.startKm) / maxKm * CHART_WIDTH)}
+                            height={8}
+                            fill={ROAD_CLASS_COLORS[stretch.roadClass]}
+                        >
+                            <title>{`Route ${row + 1}: ${ROAD_CLASS_LABELS[stretch.roadClass]}`}</title>
+                        </rect>
+                    )))}
+                </ChartFrame>
+            )}
+
+            {hasAny(s => s.elevation) && (
+                <LineChart title="Elevation (m)" series={lines(s => s.elevation)} range={valueRange(allSeries, s => s.elevation)} {...frame} />
+            )}
+
+            {hasAny(s => s.temperature) && (
+                <LineChart title="Temperature (°C)" series={lines(s => s.temperature)} range={valueRange(allSeries, s => s.temperature)} {...frame} />
+            )}
+
+            {hasAny(s => s.precipitation) && (
+                <LineChart title="Precipitation (mm/h)" series={lines(s => s.precipitation)} range={valueRange(allSeries, s => s.precipitation, 0)} {...frame} />
+            )}
+
+            <div className="flex justify-between text-[10px] font-semibold text-gray-400 dark:text-gray-500">
+                <span>0 km</span>
+                <span>{maxKm.toFixed(1)} km</span>
+            </div>
+
+            {cursorKm !== undefined && (
+                <div className="space-y-0.5 text-xs">
+                    <p className="font-bold text-gray-700 dark:text-gray-200">At {cursorKm.toFixed(1)} km</p>
+                    {allSeries.map((s, i) => {
+                        if (cursorKm > s.totalKm) return null;
+                        const lighting = valueAtKm(s.lighting, cursorKm);
+                        const roadClass = roadClassAtKm(s.roadClasses, cursorKm);
+                        const elevation = valueAtKm(s.elevation, cursorKm);
+                        const temperature = valueAtKm(s.temperature, cursorKm);
+                        const precipitation = valueAtKm(s.precipitation, cursorKm);
+                        const parts = [
+                            lighting !== undefined && `light ${lighting.toFixed(1)}`,
+                            roadClass && ROAD_CLASS_LABELS[roadClass].toLowerCase(),
+                            elevation !== undefined && `${Math.round(elevation)} m`,
+                            temperature !== undefined && `${Math.round(temperature)}°C`,
+                            precipitation !== undefined && `${precipitation.toFixed(1)} mm`
+                        ].filter(Boolean);
+                        return (
+                            <p key={s.routeId} className="flex items-center gap-1.5 text-gray-600 dark:text-gray-300">
+                                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: routeColor(i) }} />
+                                Route {i + 1}: {parts.join(' · ') || 'no data'}
+                            </p>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
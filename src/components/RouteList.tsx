@@ -1,6 +1,11 @@
-import { Route, DrivingProfile } from '../types';
+import { useState } from 'react';
+import { Route, DrivingProfile, RoadClass } from '../types';
+import { ROAD_CLASSES, ROAD_CLASS_LABELS } from '../services/roadClassService';
+import { ScoreBreakdown } from './ScoreBreakdown';
 import { getRecommendationReason } from '../services/routeService';
-import { Timer, Zap, Lightbulb, TrendingUp, Award, Sun, Cloud, CloudRain, Snowflake, CloudLightning } from 'lucide-react';
+import { isImportedRoute } from '../services/importService';
+import { getRoutingProviderName } from '../services/routingProviders';
+import { Timer, Zap, Lightbulb, TrendingUp, Award, Sun, Cloud, CloudRain, Snowflake, CloudLightning, Bike, Footprints, ChevronDown, Moon, AlertTriangle, FileUp, X, Mountain } from 'lucide-react';
 import { clsx } from 'clsx';
 
 interface RouteListProps {
@@ -8,20 +13,47 @@ interface RouteListProps {
     selectedProfile: DrivingProfile;
     selectedRouteId?: string;
     onSelectRoute?: (id: string) => void;
-    travelTime?: string;
+    onRemoveRoute?: (id: string) => void; // offered for imported tracks
 }
 
+const ROAD_CLASS_COLORS: Record<RoadClass, string> = {
+    motorway: 'bg-indigo-500',
+    primary: 'bg-blue-400',
+    residential: 'bg-emerald-400',
+    unclassified: 'bg-amber-400'
+};
+
+function formatClock(iso: string) {
+    return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+// Arrival clock time, flagged when it falls on a later day than departure
+function formatArrival(iso: string, departureIso?: string) {
+    const clock = formatClock(iso);
+    if (!departureIso) return clock;
+    const dayOffset = Math.round(
+        (new Date(iso).setHours(0, 0, 0, 0) - new Date(departureIso).setHours(0, 0, 0, 0)) / 86400000
+    );
+    return dayOffset > 0 ? `${clock} +${dayOffset}d` : clock;
+}
+
+// Risk from which the card shows a weather warning, and from which it turns red
+const WEATHER_WARNING_RISK = 3;
+const WEATHER_SEVERE_RISK = 6;
+
 function getWeatherIcon(code: number) {
     if (code <= 1) return <Sun size={14} className="text-orange-500" />;
     if (code <= 3) return <Cloud size={14} className="text-gray-500" />;
     if (code <= 48) return <Cloud size={14} className="text-slate-500" />;
     if (code <= 67 || (code >= 80 && code <= 82)) return <CloudRain size={14} className="text-blue-500" />;
-    if (code <= 77) return <Snowflake size={14} className="text-cyan-500" />;
+    if (code <= 77 || code === 85 || code === 86) return <Snowflake size={14} className="text-cyan-500" />;
     if (code >= 95) return <CloudLightning size={14} className="text-purple-500" />;
     return <Sun size={14} className="text-orange-500" />;
 }
 
-export function RouteList({ routes, selectedProfile, selectedRouteId, onSelectRoute, travelTime }: RouteListProps) {
+export function RouteList({ routes, selectedProfile, selectedRouteId, onSelectRoute, onRemoveRoute }: RouteListProps) {
+    const [expandedRouteId, setExpandedRouteId] = useState<string | null>(null);
+
     if (routes.length === 0) return null;
 
     return (
@@ -35,7 +67,10 @@ export function RouteList({ routes, selectedProfile, selectedRouteId, onSelectRo
                 {routes.map((route, index) => {
                     const isTopPick = index === 0;
                     const isSelected = route.id === selectedRouteId;
-                    const reason = getRecommendationReason(route, selectedProfile, travelTime);
+                    const reason = getRecommendationReason(route, selectedProfile);
+                    const isExpanded = expandedRouteId === route.id;
+                    const departureTime = route.weather?.origin.time;
+                    const isImported = isImportedRoute(route);
 
                     return (
                         <div
@@ -62,8 +97,51 @@ export function RouteList({ routes, selectedProfile, selectedRouteId, onSelectRo
 
                             <div className="flex justify-between items-start mb-4">
                                 <div>
-                                    <h4 className={clsx("font-bold text-lg mb-1", isSelected ? "text-gray-900 dark:text-white" : "text-gray-900 dark:text-slate-100")}>{route.roadType} Route</h4>
+                                    <h4 className={clsx("font-bold text-lg mb-1 flex items-center gap-2", isSelected ? "text-gray-900 dark:text-white" : "text-gray-900 dark:text-slate-100")}>
+                                        {route.roadType} Route
+                                        {isImported && (
+                                            <span className="flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300">
+                                                <FileUp size={10} />
+                                                Imported
+                                            </span>
+                                        )}
+                                        {isImported && onRemoveRoute && (
+                                            <button
+                                                type="button"
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    onRemoveRoute(route.id);
+                                                }}
+                                                className="p-0.5 rounded-full text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"
+                                                aria-label="Remove imported track"
+                                            >
+                                                <X size={14} />
+                                            </button>
+                                        )}
+                                    </h4>
                                     <p className="text-gray-500 dark:text-gray-400 text-sm">{route.description}</p>
+                                    {!isImported && route.geometry && (
+                                        <p className="text-[10px] font-semibold text-gray-400 dark:text-gray-500 uppercase tracking-wider">
+                                            via {getRoutingProviderName(route.geometry.provider)}
+                                        </p>
+                                    )}
+                                    {route.weatherRisk && route.weatherRisk.score >= WEATHER_WARNING_RISK && (
+                                        <span
+                                            className={clsx(
+                                                "inline-flex items-center gap-1 mt-2 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider",
+                                                route.weatherRisk.score >= WEATHER_SEVERE_RISK
+                                                    ? "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300"
+                                                    : "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300"
+                                            )}
+                                            title={route.weatherRisk.worstPoint
+                                                ? `Worst at ${route.weatherRisk.worstPoint.name}` +
+                                                (route.weatherRisk.worstPoint.time ? ` around ${formatClock(route.weatherRisk.worstPoint.time)}` : '')
+                                                : undefined}
+                                        >
+                                            <AlertTriangle size={12} />
+                                            {route.weatherRisk.hazards.slice(0, 2).join(' · ') || 'Weather risk'} ({route.weatherRisk.score}/10)
+                                        </span>
+                                    )}
                                 </div>
                                 <div className="text-right">
                                     <div className="text-3xl font-black bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
@@ -94,7 +172,13 @@ export function RouteList({ routes, selectedProfile, selectedRouteId, onSelectRo
                                     </span>
                                 </div>
 
-                                <div className="flex flex-col items-center p-3 bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-xl border border-blue-100 dark:border-blue-900/50 shadow-sm">
+                                <div
+                                    className="flex flex-col items-center p-3 bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-xl border border-blue-100 dark:border-blue-900/50 shadow-sm"
+                                    title={route.activity
+                                        ? `${route.activity.shops} shops, ${route.activity.amenities} amenities, ${route.activity.residentialBuildings} homes (${route.activity.perKm}/km)` +
+                                        (route.activity.timeAware ? ` · ${route.activity.openPois} open, ${route.activity.closedPois} closed at travel time` : '')
+                                        : undefined}
+                                >
                                     <div className="flex items-center gap-1 text-blue-600 dark:text-blue-400 mb-1.5">
                                         <Zap size={14} />
                                         <span className="text-[10px] uppercase font-bold">Activity</span>
@@ -129,6 +213,110 @@ export function RouteList({ routes, selectedProfile, selectedRouteId, onSelectRo
                                 </div>
                             </div>
 
+                            {/* Per-leg breakdown for multi-stop trips */}
+                            {route.legs && route.legs.length > 1 && (
+                                <div className="mb-4 space-y-1.5">
+                                    <h5 className="text-[10px] text-gray-400 font-bold uppercase tracking-wider">Legs</h5>
+                                    {route.legs.map((leg, legIndex) => (
+                                        <div key={legIndex} className="flex items-center justify-between gap-2 p-2 bg-slate-50 dark:bg-slate-700 rounded-lg border border-slate-100 dark:border-slate-600 text-xs">
+                                            <span className="font-bold text-gray-500 dark:text-gray-400 flex-shrink-0">
+                                                {String.fromCharCode(65 + legIndex)}→{String.fromCharCode(66 + legIndex)}
+                                            </span>
+                                            <span className="truncate text-gray-600 dark:text-gray-300 flex-1" title={`${leg.from} → ${leg.to}`}>
+                                                {leg.to.split(',')[0]}
+                                            </span>
+                                            <span className="font-bold text-gray-700 dark:text-gray-200 flex-shrink-0">{leg.eta}m · {leg.distance}km</span>
+                                            {leg.lightingScore !== undefined && (
+                                                <span className="flex items-center gap-0.5 text-yellow-600 dark:text-yellow-500 flex-shrink-0" title={`${leg.unlitKm ?? 0} km unlit`}>
+                                                    <Lightbulb size={12} />{leg.lightingScore}
+                                                </span>
+                                            )}
+                                            {leg.weather && leg.weather.code >= 0 && (
+                                                <span className="flex items-center gap-0.5 flex-shrink-0">
+                                                    {getWeatherIcon(leg.weather.code)}
+                                                    <span className="text-gray-700 dark:text-gray-200">{leg.weather.temp}°</span>
+                                                </span>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {/* Road Composition */}
+                            {route.roadComposition && (
+                                <div className="mb-4">
+                                    <div className="flex h-2 rounded-full overflow-hidden bg-gray-200 dark:bg-slate-600">
+                                        {ROAD_CLASSES.filter(c => route.roadComposition![c] > 0).map(c => (
+                                            <div
+                                                key={c}
+                                                className={ROAD_CLASS_COLORS[c]}
+                                                style={{ width: `${route.roadComposition![c]}%` }}
+                                                title={`${ROAD_CLASS_LABELS[c]}: ${route.roadComposition![c]}%`}
+                                            />
+                                        ))}
+                                    </div>
+                                    <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1.5">
+                                        {ROAD_CLASSES.filter(c => route.roadComposition![c] > 0).map(c => (
+                                            <span key={c} className="flex items-center gap-1 text-[10px] text-gray-500 dark:text-gray-400">
+                                                <span className={clsx("w-2 h-2 rounded-full", ROAD_CLASS_COLORS[c])} />
+                                                {ROAD_CLASS_LABELS[c]} {route.roadComposition![c]}%
+                                            </span>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Lighting Profile Summary */}
+                            {route.lighting && (
+                                <div className="mb-4 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                                    <Lightbulb size={12} className="text-yellow-500 flex-shrink-0" />
+                                    <span>
+                                        <span className="font-bold text-gray-700 dark:text-gray-200">{route.lighting.unlitKm} km</span> unlit
+                                        {route.lighting.worstStretch && (
+                                            <> · darkest stretch km {route.lighting.worstStretch.startKm}–{route.lighting.worstStretch.endKm}</>
+                                        )}
+                                    </span>
+                                </div>
+                            )}
+
+                            {/* Darkness along the trip */}
+                            {route.daylight && (
+                                <div className="mb-4 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                                    {route.daylight.darknessFraction > 0
+                                        ? <Moon size={12} className="text-indigo-500 flex-shrink-0" />
+                                        : <Sun size={12} className="text-orange-500 flex-shrink-0" />}
+                                    <span>
+                                        <span className="font-bold text-gray-700 dark:text-gray-200">{Math.round(route.daylight.darknessFraction * 100)}%</span> of the trip in darkness
+                                        {route.daylight.origin.sunset && <> · sunset {formatClock(route.daylight.origin.sunset)}</>}
+                                        {route.daylight.origin.civilDusk && <> · dark from {formatClock(route.daylight.origin.civilDusk)}</>}
+                                    </span>
+                                </div>
+                            )}
+
+                            {/* Walking / cycling infrastructure */}
+                            {route.infrastructureScore !== undefined && (
+                                <div className="mb-4 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                                    {route.mode === 'cycling'
+                                        ? <Bike size={12} className="text-emerald-500 flex-shrink-0" />
+                                        : <Footprints size={12} className="text-emerald-500 flex-shrink-0" />}
+                                    <span>
+                                        {route.mode === 'cycling' ? 'Cycle infrastructure' : 'Footways & crossings'}:{' '}
+                                        <span className="font-bold text-gray-700 dark:text-gray-200">{route.infrastructureScore}/10</span>
+                                    </span>
+                                </div>
+                            )}
+
+                            {/* Climbs along the way */}
+                            {route.elevation && (
+                                <div className="mb-4 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                                    <Mountain size={12} className="text-stone-500 flex-shrink-0" />
+                                    <span>
+                                        <span className="font-bold text-gray-700 dark:text-gray-200">{route.elevation.ascent} m</span> up, {route.elevation.descent} m down
+                                        {' '}· max grade {route.elevation.maxGrade}%
+                                    </span>
+                                </div>
+                            )}
+
                             {/* Weather Info */}
                             {route.weather && (
                                 <div className="mb-4">
@@ -141,6 +329,9 @@ export function RouteList({ routes, selectedProfile, selectedRouteId, onSelectRo
                                                 {getWeatherIcon(route.weather.origin.code)}
                                                 <span className="text-xs font-bold text-gray-700 dark:text-gray-200">{route.weather.origin.temp}°</span>
                                             </div>
+                                            {route.weather.origin.time && (
+                                                <span className="text-[10px] text-gray-400 mt-0.5">{formatClock(route.weather.origin.time)}</span>
+                                            )}
                                         </div>
 
                                         {/* Cities along route */}
@@ -154,6 +345,9 @@ export function RouteList({ routes, selectedProfile, selectedRouteId, onSelectRo
                                                         {getWeatherIcon(wp.data.code)}
                                                         <span className="text-xs font-bold text-gray-700 dark:text-gray-200">{wp.data.temp}°</span>
                                                     </div>
+                                                    {wp.data.time && (
+                                                        <span className="text-[10px] text-gray-400 mt-0.5">{formatArrival(wp.data.time, departureTime)}</span>
+                                                    )}
                                                 </div>
                                             ))
                                         ) : (
@@ -170,6 +364,9 @@ export function RouteList({ routes, selectedProfile, selectedRouteId, onSelectRo
                                                 {getWeatherIcon(route.weather.destination.code)}
                                                 <span className="text-xs font-bold text-gray-700 dark:text-gray-200">{route.weather.destination.temp}°</span>
                                             </div>
+                                            {route.weather.destination.time && (
+                                                <span className="text-[10px] text-gray-400 mt-0.5">{formatArrival(route.weather.destination.time, departureTime)}</span>
+                                            )}
                                         </div>
                                     </div>
                                 </div>
@@ -177,13 +374,26 @@ export function RouteList({ routes, selectedProfile, selectedRouteId, onSelectRo
 
                             {/* Recommendation Reason */}
                             <div className="bg-gradient-to-r from-blue-50/50 to-indigo-50/50 dark:from-blue-900/10 dark:to-indigo-900/10 rounded-xl p-3 border border-blue-100 dark:border-blue-900/30">
-                                <p className="text-sm text-gray-700 dark:text-gray-300 flex items-start gap-2">
+                                <button
+                                    type="button"
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        setExpandedRouteId(isExpanded ? null : route.id);
+                                    }}
+                                    disabled={!route.ranking}
+                                    className="w-full text-left text-sm text-gray-700 dark:text-gray-300 flex items-start gap-2"
+                                    aria-expanded={isExpanded}
+                                >
                                     <span className="text-blue-500 mt-0.5">💡</span>
-                                    <span>
+                                    <span className="flex-1">
                                         <span className="font-bold text-gray-900 dark:text-gray-100">Why this route?</span>{' '}
                                         <span className="text-gray-600 dark:text-gray-400">{reason}</span>
                                     </span>
-                                </p>
+                                    {route.ranking && (
+                                        <ChevronDown size={16} className={clsx("mt-0.5 text-blue-500 transition-transform flex-shrink-0", isExpanded && "rotate-180")} />
+                                    )}
+                                </button>
+                                {isExpanded && route.ranking && <ScoreBreakdown ranking={route.ranking} />}
                             </div>
                         </div>
                     );
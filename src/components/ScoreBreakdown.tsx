@@ -0,0 +1,61 @@
+import { ArrowDown, ArrowUp, Minus } from 'lucide-react';
+import { clsx } from 'clsx';
+import { CriterionBreakdown, RouteRanking } from '../types';
+
+interface ScoreBreakdownProps {
+    ranking: RouteRanking;
+}
+
+function formatValue(item: CriterionBreakdown) {
+    return item.criterion === 'eta' ? `${item.value} min` : `${item.value}/10`;
+}
+
+function RankDelta({ delta }: { delta: number }) {
+    if (delta === 0) {
+        return <span className="flex items-center text-gray-400" title="No effect on rank"><Minus size={12} /></span>;
+    }
+    const helped = delta > 0;
+    return (
+        <span
+            className={clsx("flex items-center gap-0.5 font-bold", helped ? "text-green-600 dark:text-green-400" : "text-red-500 dark:text-red-400")}
+            title={`${helped ? 'Moved up' : 'Moved down'} ${Math.abs(delta)} place${Math.abs(delta) === 1 ? '' : 's'} because of this criterion`}
+        >
+            {helped ? <ArrowUp size={12} /> : <ArrowDown size={12} />}
+            {Math.abs(delta)}
+        </span>
+    );
+}
+
+export function ScoreBreakdown({ ranking }: ScoreBreakdownProps) {
+    const maxContribution = Math.max(1, ...ranking.criteria.map(c => c.contribution));
+
+    return (
+        <div className="mt-3 space-y-2">
+            <div className="flex justify-between text-[10px] font-bold uppercase tracking-wider text-gray-400">
+                <span>Rank #{ranking.rank}</span>
+                <span>Score {ranking.score}/100</span>
+            </div>
+            {ranking.criteria.map(item => (
+                <div key={item.criterion} className={clsx("text-xs", item.weight === 0 && "opacity-40")}>
+                    <div className="flex items-center justify-between gap-2 mb-0.5">
+                        <span className="font-semibold text-gray-700 dark:text-gray-300">{item.label}</span>
+                        <span className="flex items-center gap-2 text-gray-500 dark:text-gray-400">
+                            <span title="Raw value">{formatValue(item)}</span>
+                            <span title="Normalised value × weight">{Math.round(item.normalized * 100)}% × {item.weight}</span>
+                            <RankDelta delta={item.rankDelta} />
+                        </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <div className="flex-1 h-1.5 rounded-full bg-gray-200 dark:bg-slate-600 overflow-hidden">
+                            <div
+                                className="h-full rounded-full bg-gradient-to-r from-blue-500 to-indigo-500"
+                                style={{ width: `${item.contribution / maxContribution * 100}%` }}
+                            />
+                        </div>
+                        <span className="w-10 text-right font-bold text-gray-700 dark:text-gray-200">+{item.contribution}</span>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,38 @@
+import { useState } from 'react';
+import { FileUp, Loader2 } from 'lucide-react';
+
+interface TrackImportProps {
+    onImport: (fileName: string, contents: string) => Promise<void>;
+}
+
+export function TrackImport({ onImport }: TrackImportProps) {
+    const [isImporting, setIsImporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setIsImporting(true);
+        setError(null);
+        try {
+            await onImport(file.name, await file.text());
+        } catch (err: any) {
+            setError(err.message || "Could not import the track");
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <div className="mt-3">
+            <label className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl border-2 border-dashed border-gray-300 dark:border-slate-600 text-xs font-bold text-gray-500 dark:text-gray-400 hover:border-blue-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors cursor-pointer">
+                {isImporting ? <Loader2 size={14} className="animate-spin" /> : <FileUp size={14} />}
+                {isImporting ? "Scoring track..." : "Import a GPX, KML or GeoJSON track"}
+                <input type="file" accept=".gpx,.kml,.json,.geojson" onChange={handleFile} className="hidden" disabled={isImporting} />
+            </label>
+            {error && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+    );
+}
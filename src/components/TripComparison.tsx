@@ -0,0 +1,86 @@
+import { ArrowDownRight, ArrowUpRight, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import { Route, SavedTrip } from '../types';
+import { compareTripScores } from '../services/tripStore';
+
+interface TripComparisonProps {
+    trip: SavedTrip;
+    routes: Route[];
+    onClose: () => void;
+}
+
+// Direction in which each value is better
+const METRICS: { key: 'profileScore' | 'eta' | 'lightingScore' | 'activityScore' | 'weatherRisk', label: string, higherIsBetter: boolean }[] = [
+    { key: 'profileScore', label: 'Score', higherIsBetter: true },
+    { key: 'eta', label: 'ETA', higherIsBetter: false },
+    { key: 'lightingScore', label: 'Lighting', higherIsBetter: true },
+    { key: 'activityScore', label: 'Activity', higherIsBetter: true },
+    { key: 'weatherRisk', label: 'Weather', higherIsBetter: false }
+];
+
+function Delta({ before, after, higherIsBetter }: { before?: number, after?: number, higherIsBetter: boolean }) {
+    if (before === undefined || after === undefined) {
+        return <span className="text-gray-400">{after ?? '–'}</span>;
+    }
+    const delta = Math.round((after - before) * 10) / 10;
+    if (delta === 0) {
+        return <span className="text-gray-600 dark:text-gray-300">{after}</span>;
+    }
+    const improved = (delta > 0) === higherIsBetter;
+    const Icon = delta > 0 ? ArrowUpRight : ArrowDownRight;
+    return (
+        <span className={clsx("inline-flex items-center gap-0.5", improved ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400")}>
+            {after}
+            <Icon size={10} />
+            <span className="text-[9px]">{delta > 0 ? '+' : ''}{delta}</span>
+        </span>
+    );
+}
+
+/**
+ * Scores of a saved trip's routes then and now
+ */
+export function TripComparison({ trip, routes, onClose }: TripComparisonProps) {
+    const changes = compareTripScores(trip, routes);
+    const savedOn = new Date(trip.savedAt).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-3 rounded-xl border border-gray-200 dark:border-slate-700 shadow-sm">
+            <div className="flex items-start justify-between gap-2 mb-2">
+                <div>
+                    <p className="text-xs font-bold text-gray-700 dark:text-gray-200">{trip.name}</p>
+                    <p className="text-[10px] text-gray-500 dark:text-gray-400">Compared with the scores saved on {savedOn}</p>
+                </div>
+                <button type="button" onClick={onClose} className="p-1 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-slate-700" aria-label="Close comparison">
+                    <X size={14} />
+                </button>
+            </div>
+            <table className="w-full text-[10px]">
+                <thead>
+                    <tr className="text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        <th className="text-left font-bold pb-1">Route</th>
+                        {METRICS.map(metric => (
+                            <th key={metric.key} className="text-right font-bold pb-1">{metric.label}</th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {changes.map(({ saved, current }) => (
+                        <tr key={saved.routeId} className="border-t border-gray-100 dark:border-slate-700">
+                            <td className="py-1 pr-1 font-medium text-gray-700 dark:text-gray-200 truncate max-w-[90px]" title={saved.description}>
+                                {saved.roadType}
+                            </td>
+                            {current ? METRICS.map(metric => (
+                                <td key={metric.key} className="py-1 text-right">
+                                    <Delta before={saved[metric.key]} after={current[metric.key]} higherIsBetter={metric.higherIsBetter} />
+                                </td>
+                            )) : (
+                                <td colSpan={METRICS.length} className="py-1 text-right text-gray-400">No longer offered</td>
+                            )}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
@@ -0,0 +1,255 @@
+import { useState } from 'react';
+import { Bookmark, Briefcase, Download, History, Home, MapPin, Play, Plus, Star, Trash2, Upload, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import { FavouriteKind, FavouritePlace, RecentSearch, SavedTrip } from '../types';
+
+type Tab = 'places' | 'recent' | 'trips';
+
+interface TripLibraryProps {
+    favourites: FavouritePlace[];
+    recent: RecentSearch[];
+    trips: SavedTrip[];
+    // Name suggested for the current search, when there is one to save
+    currentTripName?: string;
+    onAddFavourite: (kind: FavouriteKind, address: string, label?: string) => void;
+    onRemoveFavourite: (id: string) => void;
+    onRunRecent: (search: RecentSearch) => void;
+    onClearRecent: () => void;
+    onSaveTrip: (name: string) => void;
+    onRerunTrip: (trip: SavedTrip) => void;
+    onDeleteTrip: (id: string) => void;
+    onExport: () => void;
+    onImport: (contents: string) => void; // throws on a malformed file
+}
+
+const TABS: { id: Tab, label: string, icon: typeof Star }[] = [
+    { id: 'places', label: 'Places', icon: Star },
+    { id: 'recent', label: 'Recent', icon: History },
+    { id: 'trips', label: 'Saved', icon: Bookmark }
+];
+
+const FAVOURITE_ICONS: Record<FavouriteKind, typeof Star> = {
+    home: Home,
+    work: Briefcase,
+    custom: MapPin
+};
+
+const inputClassName = "w-full p-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-xs font-medium text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 outline-none";
+const actionClassName = "flex items-center gap-1 text-[10px] font-bold text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30 hover:bg-blue-100 dark:hover:bg-blue-900/50 px-2 py-0.5 rounded-full transition-colors cursor-pointer disabled:opacity-50";
+const iconButtonClassName = "p-1 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors";
+
+const describeStops = (stops: string[]) => {
+    const short = stops.map(stop => stop.split(',')[0]);
+    return short.length > 2 ? `${short[0]} → ${short.length - 2} stops → ${short[short.length - 1]}` : short.join(' → ');
+};
+
+const formatSavedAt = (iso: string) => new Date(iso).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * Favourite places, recent searches and saved trips, with JSON export and import
+ */
+export function TripLibrary({
+    favourites,
+    recent,
+    trips,
+    currentTripName,
+    onAddFavourite,
+    onRemoveFavourite,
+    onRunRecent,
+    onClearRecent,
+    onSaveTrip,
+    onRerunTrip,
+    onDeleteTrip,
+    onExport,
+    onImport
+}: TripLibraryProps) {
+    const [tab, setTab] = useState<Tab>('places');
+    const [placeKind, setPlaceKind] = useState<FavouriteKind>('home');
+    const [placeLabel, setPlaceLabel] = useState('');
+    const [placeAddress, setPlaceAddress] = useState('');
+    const [tripName, setTripName] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const handleAddPlace = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!placeAddress.trim()) return;
+        onAddFavourite(placeKind, placeAddress.trim(), placeKind === 'custom' ? placeLabel.trim() : undefined);
+        setPlaceAddress('');
+        setPlaceLabel('');
+    };
+
+    const handleSaveTrip = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = tripName.trim() || currentTripName;
+        if (!name) return;
+        onSaveTrip(name);
+        setTripName('');
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setError(null);
+        try {
+            onImport(await file.text());
+        } catch (err: any) {
+            setError(err.message || "Could not read the file");
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-3 rounded-xl border border-gray-200 dark:border-slate-700 shadow-sm space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex gap-1 p-1 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg">
+                    {TABS.map(({ id, label, icon: Icon }) => (
+                        <button
+                            key={id}
+                            type="button"
+                            onClick={() => setTab(id)}
+                            className={clsx(
+                                "flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-bold transition-colors",
+                                tab === id
+                                    ? "bg-blue-600 text-white shadow-sm"
+                                    : "text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700"
+                            )}
+                        >
+                            <Icon size={12} />
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                <span className="flex gap-1">
+                    <button type="button" onClick={onExport} className={actionClassName} title="Export places, searches and trips as JSON">
+                        <Download size={10} />
+                        Export
+                    </button>
+                    <label className={actionClassName} title="Import places, searches and trips from JSON">
+                        <Upload size={10} />
+                        Import
+                        <input type="file" accept=".json" onChange={handleFile} className="hidden" />
+                    </label>
+                </span>
+            </div>
+
+            {tab === 'places' && (
+                <div className="space-y-2">
+                    {favourites.length === 0 && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">No favourite places yet.</p>
+                    )}
+                    {favourites.map(place => {
+                        const Icon = FAVOURITE_ICONS[place.kind];
+                        return (
+                            <div key={place.id} className="flex items-center gap-2 text-xs">
+                                <Icon size={14} className="text-blue-600 dark:text-blue-400 shrink-0" />
+                                <span className="font-bold text-gray-700 dark:text-gray-200">{place.label}</span>
+                                <span className="flex-1 truncate text-gray-500 dark:text-gray-400" title={place.address}>{place.address}</span>
+                                <button type="button" onClick={() => onRemoveFavourite(place.id)} className={iconButtonClassName} aria-label={`Remove ${place.label}`}>
+                                    <X size={12} />
+                                </button>
+                            </div>
+                        );
+                    })}
+                    <form onSubmit={handleAddPlace} className="grid grid-cols-[auto_1fr_auto] gap-1.5 pt-1">
+                        <select value={placeKind} onChange={(e) => setPlaceKind(e.target.value as FavouriteKind)} className={inputClassName}>
+                            <option value="home">Home</option>
+                            <option value="work">Work</option>
+                            <option value="custom">Other</option>
+                        </select>
+                        <input
+                            type="text"
+                            value={placeAddress}
+                            onChange={(e) => setPlaceAddress(e.target.value)}
+                            placeholder="Address"
+                            className={inputClassName}
+                        />
+                        <button type="submit" disabled={!placeAddress.trim()} className={actionClassName} aria-label="Add place">
+                            <Plus size={12} />
+                        </button>
+                        {placeKind === 'custom' && (
+                            <input
+                                type="text"
+                                value={placeLabel}
+                                onChange={(e) => setPlaceLabel(e.target.value)}
+                                placeholder="Label (e.g. Gym)"
+                                className={clsx(inputClassName, "col-span-3")}
+                            />
+                        )}
+                    </form>
+                </div>
+            )}
+
+            {tab === 'recent' && (
+                <div className="space-y-1">
+                    {recent.length === 0 ? (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">Searches you run appear here.</p>
+                    ) : (
+                        <>
+                            {recent.map(search => (
+                                <button
+                                    key={`${search.searchedAt}-${search.stops.join('|')}`}
+                                    type="button"
+                                    onClick={() => onRunRecent(search)}
+                                    className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-left text-xs hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                                    title={search.stops.join(' → ')}
+                                >
+                                    <History size={12} className="text-gray-400 shrink-0" />
+                                    <span className="flex-1 truncate font-medium text-gray-700 dark:text-gray-200">{describeStops(search.stops)}</span>
+                                    <span className="text-[10px] text-gray-400 capitalize">{search.mode}</span>
+                                </button>
+                            ))}
+                            <button type="button" onClick={onClearRecent} className="text-[10px] font-bold text-gray-400 hover:text-red-500 px-2">
+                                Clear history
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {tab === 'trips' && (
+                <div className="space-y-2">
+                    {currentTripName && (
+                        <form onSubmit={handleSaveTrip} className="flex gap-1.5">
+                            <input
+                                type="text"
+                                value={tripName}
+                                onChange={(e) => setTripName(e.target.value)}
+                                placeholder={currentTripName}
+                                className={inputClassName}
+                            />
+                            <button type="submit" className={clsx(actionClassName, "whitespace-nowrap")}>
+                                <Bookmark size={10} />
+                                Save trip
+                            </button>
+                        </form>
+                    )}
+                    {trips.length === 0 && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {currentTripName ? "Save this trip to compare its scores later." : "Search for a route to save it as a trip."}
+                        </p>
+                    )}
+                    {trips.map(trip => (
+                        <div key={trip.id} className="flex items-center gap-2 text-xs">
+                            <div className="flex-1 min-w-0">
+                                <p className="font-bold text-gray-700 dark:text-gray-200 truncate">{trip.name}</p>
+                                <p className="text-[10px] text-gray-500 dark:text-gray-400 truncate">
+                                    {describeStops(trip.stops)} · {trip.time} · saved {formatSavedAt(trip.savedAt)}
+                                </p>
+                            </div>
+                            <button type="button" onClick={() => onRerunTrip(trip)} className={actionClassName} title="Run again and compare scores">
+                                <Play size={10} />
+                                Re-run
+                            </button>
+                            <button type="button" onClick={() => onDeleteTrip(trip.id)} className={iconButtonClassName} aria-label={`Delete ${trip.name}`}>
+                                <Trash2 size={12} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {error && <p className="text-[10px] text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+    );
+}
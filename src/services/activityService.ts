@@ -0,0 +1,127 @@
+import { ActivityStats, LatLng } from '../types';
+import { around, hasTag, runOverpassQuery, tagMatches } from './overpassClient';
+import { isOpenAt } from '../utils/openingHours';
+import { simplifyPath } from '../utils/geo';
+
+// Half-width of the corridor around the route in which places are counted
+const CORRIDOR_RADIUS_M = 150;
+// How far the corridor's centre line may stray from the route, well within its radius
+const CORRIDOR_TOLERANCE_KM = 0.02;
+// Weighted places per km at which the score reaches ~6.3/10
+const DENSITY_SCALE = 8;
+
+const AMENITY_FILTER = "^(restaurant|cafe|bar|pub|fast_food|pharmacy|fuel|cinema|theatre|hospital|police|bank|atm|nightclub|marketplace|bus_station|taxi)$";
+const RESIDENTIAL_FILTER = "^(residential|apartments|house|detached|semidetached_house|terrace|dormitory)$";
+
+interface CorridorData {
+    pois: { kind: 'shop' | 'amenity', openingHours?: string }[];
+    residentialBuildings: number;
+}
+
+const fetchCorridorData = async (path: LatLng[]): Promise<CorridorData | null> => {
+    // A multi-point "around" filter selects everything near the polyline itself
+    const corridor = around(CORRIDOR_RADIUS_M, simplifyPath(path, CORRIDOR_TOLERANCE_KM), true);
+
+    try {
+        // Cached, so the score can be re-evaluated for other travel times without a request
+        const { elements } = await runOverpassQuery({
+            sets: [
+                {
+                    statements: [
+                        { element: 'nwr', tags: [hasTag('shop')], area: corridor },
+                        { element: 'nwr', tags: [tagMatches('amenity', AMENITY_FILTER)], area: corridor }
+                    ],
+                    output: 'tags'
+                },
+                {
+                    statements: [{ element: 'way', tags: [tagMatches('building', RESIDENTIAL_FILTER)], area: corridor }],
+                    output: 'count'
+                }
+            ]
+        });
+
+        const result: CorridorData = { pois: [], residentialBuildings: 0 };
+        elements.forEach(el => {
+            if (el.type === 'count') {
+                result.residentialBuildings = parseInt(el.tags.total, 10) || 0;
+                return;
+            }
+            const tags = el.tags || {};
+            if (tags.shop || tags.amenity) {
+                result.pois.push({
+                    kind: tags.shop ? 'shop' : 'amenity',
+                    openingHours: tags.opening_hours
+                });
+            }
+        });
+
+        return result;
+    } catch (error) {
+        console.error("Failed to fetch activity data along route:", error);
+        return null;
+    }
+};
+
+const isNightHour = (date: Date) => date.getHours() >= 22 || date.getHours() < 6;
+
+/**
+ * Scores how lively the surroundings of a route are from OSM POI density.
+ * Shops, amenities and homes within a corridor around the path are counted per km.
+ * With a travel time, places known to be closed then are ignored and untagged
+ * ones count less at night.
+ */
+export const fetchActivityScore = async (
+    path: LatLng[],
+    distanceKm: number,
+    travelAt?: Date
+): Promise<{ score: number, stats: ActivityStats } | null> => {
+    if (!path || path.length === 0) return null;
+
+    const data = await fetchCorridorData(path);
+    if (!data) return null;
+
+    let shops = 0;
+    let amenities = 0;
+    let openPois = 0;
+    let closedPois = 0;
+    let weighted = 0;
+
+    data.pois.forEach(poi => {
+        if (poi.kind === 'shop') shops++;
+        else amenities++;
+
+        if (!travelAt) {
+            weighted += 1;
+            return;
+        }
+
+        const open = poi.openingHours ? isOpenAt(poi.openingHours, travelAt) : null;
+        if (open === true) {
+            openPois++;
+            weighted += 1.5; // Confirmed open places are the strongest signal
+        } else if (open === false) {
+            closedPois++;
+        } else {
+            weighted += isNightHour(travelAt) ? 0.3 : 1;
+        }
+    });
+
+    // Homes mean people around, but far less than an open shop does
+    weighted += data.residentialBuildings * 0.2;
+
+    const perKm = weighted / Math.max(distanceKm, 0.5);
+    const score = Math.round(10 * (1 - Math.exp(-perKm / DENSITY_SCALE)));
+
+    return {
+        score: Math.max(0, Math.min(10, score)),
+        stats: {
+            shops,
+            amenities,
+            residentialBuildings: data.residentialBuildings,
+            openPois,
+            closedPois,
+            perKm: Number(perKm.toFixed(1)),
+            timeAware: Boolean(travelAt)
+        }
+    };
+};
@@ -0,0 +1,104 @@
+import { LocationBias } from '../types';
+import { LocationResult, geocodePlaceId, nominatimGeocoder } from './geocodingService';
+
+export interface PlaceSuggestion {
+    id: string;
+    primary: string; // place name
+    secondary?: string; // region, country
+    description: string; // full text written into the input
+    source: 'google' | 'nominatim';
+    location?: LocationResult; // known up front for Nominatim results
+}
+
+// Radius of the circle Google biases towards around the user's position
+const BIAS_RADIUS_M = 50000;
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * A Places session groups keystrokes until a suggestion is picked, for billing
+ */
+export const createSessionToken = (): google.maps.places.AutocompleteSessionToken | undefined => {
+    return window.google?.maps?.places ? new google.maps.places.AutocompleteSessionToken() : undefined;
+};
+
+const googleBias = (bias?: LocationBias): google.maps.places.AutocompletionRequest['locationBias'] => {
+    if (bias?.center) return { center: bias.center, radius: BIAS_RADIUS_M };
+    return bias?.bounds;
+};
+
+const suggestWithGoogle = async (
+    input: string,
+    bias?: LocationBias,
+    sessionToken?: google.maps.places.AutocompleteSessionToken
+): Promise<PlaceSuggestion[]> => {
+    const service = new google.maps.places.AutocompleteService();
+    const { predictions } = await service.getPlacePredictions({ input, locationBias: googleBias(bias), sessionToken });
+
+    return predictions.slice(0, MAX_SUGGESTIONS).map(prediction => ({
+        id: prediction.place_id,
+        primary: prediction.structured_formatting.main_text,
+        secondary: prediction.structured_formatting.secondary_text,
+        description: prediction.description,
+        source: 'google'
+    }));
+};
+
+const suggestWithNominatim = async (input: string, bias?: LocationBias): Promise<PlaceSuggestion[]> => {
+    const results = await nominatimGeocoder.geocode(input, bias);
+    return results.slice(0, MAX_SUGGESTIONS).map((result, i) => {
+        const [primary, ...rest] = result.display_name.split(', ');
+        return {
+            id: `nominatim-${i}-${result.lat},${result.lon}`,
+            primary,
+            secondary: rest.join(', ') || undefined,
+            description: result.display_name,
+            source: 'nominatim',
+            location: result
+        };
+    });
+};
+
+/**
+ * Type-ahead suggestions from Google Places, or Nominatim search when Places
+ * isn't loaded or fails
+ */
+export const getPlaceSuggestions = async (
+    input: string,
+    bias?: LocationBias,
+    sessionToken?: google.maps.places.AutocompleteSessionToken
+): Promise<PlaceSuggestion[]> => {
+    const query = input.trim();
+    if (!query) return [];
+
+    if (window.google?.maps?.places) {
+        try {
+            return await suggestWithGoogle(query, bias, sessionToken);
+        } catch (error) {
+            console.warn("Places autocomplete failed, trying Nominatim", error);
+        }
+    }
+
+    try {
+        return await suggestWithNominatim(query, bias);
+    } catch (error) {
+        console.error("Address suggestions failed", error);
+        return [];
+    }
+};
+
+/**
+ * Where a picked suggestion is: known up front for Nominatim, looked up by
+ * place id for Google, so the pick isn't geocoded again from its text
+ */
+export const resolveSuggestion = async (suggestion: PlaceSuggestion): Promise<LocationResult | null> => {
+    if (suggestion.location) return suggestion.location;
+    if (suggestion.source !== 'google' || !window.google?.maps) return null;
+
+    try {
+        return await geocodePlaceId(suggestion.id);
+    } catch (error) {
+        console.warn("Could not resolve the picked place", error);
+        return null;
+    }
+};
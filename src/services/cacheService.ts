@@ -0,0 +1,169 @@
+// Persistent response cache for the public APIs, backed by IndexedDB.
+// Falls back to plain network requests where IndexedDB isn't available (e.g. private mode).
+
+export type CacheSource = 'overpass' | 'forecast' | 'nominatim' | 'elevation';
+
+interface CachePolicy {
+    ttlMs: number;
+    maxBytes: number; // least recently used entries are evicted beyond this
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MB = 1024 * 1024;
+
+const CACHE_POLICIES: Record<CacheSource, CachePolicy> = {
+    // OSM tags change rarely; way geometry makes these the largest entries
+    overpass: { ttlMs: 3 * DAY_MS, maxBytes: 40 * MB },
+    forecast: { ttlMs: HOUR_MS, maxBytes: 4 * MB },
+    nominatim: { ttlMs: 30 * DAY_MS, maxBytes: 2 * MB },
+    // Terrain doesn't change
+    elevation: { ttlMs: 90 * DAY_MS, maxBytes: 2 * MB }
+};
+
+const DB_NAME = 'smartdrive-cache';
+const DB_VERSION = 1;
+const STORE = 'responses';
+
+interface CacheEntry {
+    key: string;
+    source: CacheSource;
+    value: unknown;
+    storedAt: number;
+    lastUsed: number;
+    size: number; // approximate, in bytes of JSON
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Requests already on their way, so overlapping callers share one response
+const inFlight = new Map<string, Promise<unknown>>();
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (!dbPromise) {
+        dbPromise = new Promise(resolve => {
+            if (typeof indexedDB === 'undefined') {
+                resolve(null);
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+                store.createIndex('source', 'source');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn("Response cache unavailable", request.error);
+                resolve(null);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const getStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore | null> => {
+    const db = await openDb();
+    return db ? db.transaction(STORE, mode).objectStore(STORE) : null;
+};
+
+const readEntry = async (key: string): Promise<CacheEntry | undefined> => {
+    const store = await getStore('readonly');
+    return store ? toPromise<CacheEntry | undefined>(store.get(key)) : undefined;
+};
+
+/**
+ * Drops the least recently used entries of a source until it fits its size limit
+ */
+const evict = async (source: CacheSource): Promise<void> => {
+    const store = await getStore('readwrite');
+    if (!store) return;
+
+    const entries = await toPromise<CacheEntry[]>(store.index('source').getAll(source));
+    let total = entries.reduce((sum, e) => sum + e.size, 0);
+    const limit = CACHE_POLICIES[source].maxBytes;
+    if (total <= limit) return;
+
+    entries.sort((a, b) => a.lastUsed - b.lastUsed);
+    for (const entry of entries) {
+        if (total <= limit) break;
+        store.delete(entry.key);
+        total -= entry.size;
+    }
+};
+
+const writeEntry = async (entry: CacheEntry): Promise<void> => {
+    const store = await getStore('readwrite');
+    if (!store) return;
+    await toPromise(store.put(entry));
+};
+
+/**
+ * Returns a cached value while it is within its source's TTL, otherwise loads,
+ * stores and returns a fresh one. Failed loads are not cached.
+ */
+export const withCache = <T>(source: CacheSource, key: string, load: () => Promise<T>): Promise<T> => {
+    const cacheKey = `${source}:${key}`;
+    const pending = inFlight.get(cacheKey);
+    if (pending) return pending as Promise<T>;
+
+    const promise = (async () => {
+        const now = Date.now();
+        try {
+            const entry = await readEntry(cacheKey);
+            if (entry && now - entry.storedAt < CACHE_POLICIES[source].ttlMs) {
+                writeEntry({ ...entry, lastUsed: now }).catch(() => undefined);
+                return entry.value as T;
+            }
+        } catch (error) {
+            console.warn("Response cache read failed", error);
+        }
+
+        const value = await load();
+
+        const entry: CacheEntry = {
+            key: cacheKey,
+            source,
+            value,
+            storedAt: now,
+            lastUsed: now,
+            size: JSON.stringify(value)?.length ?? 0
+        };
+        writeEntry(entry)
+            .then(() => evict(source))
+            .catch(error => console.warn("Response cache write failed", error));
+
+        return value;
+    })().finally(() => inFlight.delete(cacheKey));
+
+    inFlight.set(cacheKey, promise);
+    return promise;
+};
+
+/**
+ * Fetches and parses JSON through the cache, keyed by URL and request body
+ */
+export const fetchJsonCached = <T = any>(source: CacheSource, url: string, init?: RequestInit): Promise<T> => {
+    const key = typeof init?.body === 'string' ? `${url}|${init.body}` : url;
+
+    return withCache(source, key, async () => {
+        const response = await fetch(url, init);
+        if (!response.ok) {
+            throw new Error(`${source} request failed: ${response.status}`);
+        }
+        return response.json();
+    });
+};
+
+/**
+ * Removes every cached response
+ */
+export const clearCache = async (): Promise<void> => {
+    const store = await getStore('readwrite');
+    if (!store) return;
+    await toPromise(store.clear());
+};
@@ -0,0 +1,128 @@
+import { LatLng, RoadClass, Route, WeatherData } from '../types';
+import { cumulativeDistancesKm, pointAtFraction } from '../utils/geo';
+import { buildDirections } from './directionsService';
+
+export interface SeriesPoint {
+    km: number; // along the route's path
+    value: number;
+}
+
+export interface RoadClassStretch {
+    startKm: number;
+    endKm: number;
+    roadClass: RoadClass;
+}
+
+// Everything the comparison charts plot for one route, on a common km scale
+export interface RouteSeries {
+    routeId: string;
+    totalKm: number;
+    lighting: SeriesPoint[]; // 2-10
+    roadClasses: RoadClassStretch[];
+    temperature: SeriesPoint[]; // °C at the time the route gets there
+    precipitation: SeriesPoint[]; // mm over the hour
+    elevation: SeriesPoint[]; // meters
+}
+
+// Forecasts that failed to load come back with this code
+const UNAVAILABLE_WEATHER_CODE = -1;
+
+const weatherAlong = (route: Route, totalKm: number): { km: number, data: WeatherData }[] => {
+    const weather = route.weather;
+    if (!weather) return [];
+
+    // Intermediate stops sit on leg boundaries; place them by the legs' share of the distance
+    const legs = route.geometry?.legs || [];
+    const totalMeters = legs.reduce((sum, leg) => sum + leg.distance, 0);
+    let meters = 0;
+    const stops = (weather.stops || []).map((data, i) => {
+        meters += legs[i]?.distance ?? 0;
+        return { km: totalMeters > 0 ? meters / totalMeters * totalKm : 0, data };
+    });
+
+    return [
+        { km: 0, data: weather.origin },
+        ...weather.waypoints
+            .filter(wp => wp.distanceKm !== undefined)
+            .map(wp => ({ km: wp.distanceKm!, data: wp.data })),
+        ...stops,
+        { km: totalKm, data: weather.destination }
+    ]
+        .filter(point => point.data.code !== UNAVAILABLE_WEATHER_CODE)
+        .sort((a, b) => a.km - b.km);
+};
+
+/**
+ * Road class per manoeuvre, with step distances mapped proportionally onto the
+ * path's km scale as the lighting samples use
+ */
+const roadClassesAlong = (route: Route, totalKm: number): RoadClassStretch[] => {
+    const steps = buildDirections(route).flatMap(leg => leg.steps);
+    const totalMeters = steps.reduce((sum, step) => sum + step.distance, 0);
+    if (totalMeters <= 0) return [];
+
+    const stretches: RoadClassStretch[] = [];
+    let meters = 0;
+    steps.forEach(step => {
+        const startKm = meters / totalMeters * totalKm;
+        meters += step.distance;
+        const endKm = meters / totalMeters * totalKm;
+
+        const previous = stretches[stretches.length - 1];
+        if (previous?.roadClass === step.roadClass) previous.endKm = endKm;
+        else stretches.push({ startKm, endKm, roadClass: step.roadClass });
+    });
+    return stretches;
+};
+
+export const buildRouteSeries = (route: Route): RouteSeries => {
+    const distances = cumulativeDistancesKm(route.geometry?.path || []);
+    const totalKm = distances[distances.length - 1] || route.distance;
+    const weather = weatherAlong(route, totalKm);
+
+    return {
+        routeId: route.id,
+        totalKm,
+        lighting: (route.lighting?.samples || []).map(s => ({ km: s.distanceKm, value: s.score })),
+        roadClasses: roadClassesAlong(route, totalKm),
+        temperature: weather.map(w => ({ km: w.km, value: w.data.temp })),
+        precipitation: weather
+            .filter(w => w.data.precipitation !== undefined)
+            .map(w => ({ km: w.km, value: w.data.precipitation! })),
+        elevation: (route.elevation?.samples || []).map(s => ({ km: s.distanceKm, value: s.elevation }))
+    };
+};
+
+/**
+ * Value at a distance, interpolated between the neighbouring points; undefined
+ * outside the series
+ */
+export const valueAtKm = (points: SeriesPoint[], km: number): number | undefined => {
+    if (points.length === 0 || km < points[0].km || km > points[points.length - 1].km) return undefined;
+
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        if (km <= b.km) {
+            const span = b.km - a.km;
+            const t = span > 0 ? (km - a.km) / span : 0;
+            return a.value + t * (b.value - a.value);
+        }
+    }
+    return points[points.length - 1].value;
+};
+
+export const roadClassAtKm = (stretches: RoadClassStretch[], km: number): RoadClass | undefined => {
+    return stretches.find(s => km >= s.startKm && km <= s.endKm)?.roadClass;
+};
+
+/**
+ * Where on the map a distance along the route falls; undefined past its end
+ */
+export const positionAtKm = (route: Route, km: number): LatLng | undefined => {
+    const path = route.geometry?.path || [];
+    const distances = cumulativeDistancesKm(path);
+    const totalKm = distances[distances.length - 1];
+    if (path.length < 2 || !totalKm || km > totalKm) return undefined;
+    return pointAtFraction(path, distances, km / totalKm);
+};
@@ -0,0 +1,55 @@
+import { LatLng, RouteDaylight, RouteGeometry, SunEvents } from '../types';
+import { cumulativeDistancesKm, pointAtFraction } from '../utils/geo';
+import { getDarkness, getSunTimes } from '../utils/solar';
+import { buildEtaTimeline, distanceFractionAtSeconds } from '../utils/timeline';
+
+// Points in time along the trip at which the sun's position is checked
+const DARKNESS_SAMPLES = 24;
+
+const toSunEvents = (date: Date, point: LatLng): SunEvents => {
+    const times = getSunTimes(date, point.lat, point.lng);
+    return {
+        sunrise: times.sunrise?.toISOString() ?? null,
+        sunset: times.sunset?.toISOString() ?? null,
+        civilDawn: times.civilDawn?.toISOString() ?? null,
+        civilDusk: times.civilDusk?.toISOString() ?? null
+    };
+};
+
+/**
+ * Local departure time from the date and time inputs
+ */
+export const toDepartureDate = (travelDate: string, travelTime: string): Date => {
+    return new Date(`${travelDate}T${travelTime || '00:00'}`);
+};
+
+/**
+ * Works out how much of the trip happens in the dark, following the ETA along the route:
+ * the trip is sliced into equal time steps and the sun is checked where the driver
+ * will be at each of them.
+ */
+export const computeRouteDaylight = (geometry: RouteGeometry, departure: Date): RouteDaylight | undefined => {
+    const path = geometry.path;
+    if (path.length === 0 || isNaN(departure.getTime())) return undefined;
+
+    const timeline = buildEtaTimeline(geometry);
+    const distances = cumulativeDistancesKm(path);
+
+    let darkness = 0;
+    for (let i = 0; i < DARKNESS_SAMPLES; i++) {
+        // Midpoint of each time slice
+        const seconds = (i + 0.5) / DARKNESS_SAMPLES * timeline.totalSeconds;
+        const point = pointAtFraction(path, distances, distanceFractionAtSeconds(timeline, seconds));
+        darkness += getDarkness(new Date(departure.getTime() + seconds * 1000), point.lat, point.lng);
+    }
+
+    const arrival = new Date(departure.getTime() + timeline.totalSeconds * 1000);
+
+    return {
+        darknessFraction: Number((darkness / DARKNESS_SAMPLES).toFixed(2)),
+        departure: departure.toISOString(),
+        arrival: arrival.toISOString(),
+        origin: toSunEvents(departure, path[0]),
+        destination: toSunEvents(arrival, path[path.length - 1])
+    };
+};
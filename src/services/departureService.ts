@@ -0,0 +1,166 @@
+import { DepartureSlot, DrivingProfile, Route, RouteLeg } from '../types';
+import { fetchActivityScore } from './activityService';
+import { computeWeatherRisk, fetchRouteWeather } from './weatherService';
+import { rankRoutes } from './routeService';
+import { isImportedRoute } from './importService';
+import { RoutingProvider, getRoutingProvider } from './routingProviders';
+import { toDepartureDate } from './daylightService';
+
+export interface DepartureWindow {
+    date: string; // "YYYY-MM-DD" of the first departure
+    start: string; // "HH:MM"
+    end: string; // "HH:MM", before start means the next day
+    stepMinutes: number;
+}
+
+// Each departure costs a routing request and a round of forecasts
+const MAX_DEPARTURES = 24;
+const MIN_STEP_MINUTES = 5;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+// "YYYY-MM-DD" and "HH:MM" in local time, as the date and time inputs use
+export const toLocalDate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+export const toLocalTime = (d: Date) => `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+
+/**
+ * Departure times in the window, start and end included
+ */
+export const getDepartureTimes = (window: DepartureWindow): Date[] => {
+    const start = toDepartureDate(window.date, window.start);
+    let end = toDepartureDate(window.date, window.end);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) return [];
+    if (end < start) end = new Date(end.getTime() + DAY_MS);
+
+    const step = Math.max(MIN_STEP_MINUTES, window.stepMinutes) * MINUTE_MS;
+    const times: Date[] = [];
+    for (let t = start.getTime(); t <= end.getTime() && times.length < MAX_DEPARTURES; t += step) {
+        times.push(new Date(t));
+    }
+    return times;
+};
+
+/**
+ * Traffic-aware legs for a departure, matched to the routes by their summary.
+ * Empty when the provider has no traffic data or didn't return every planned
+ * route, so the existing durations are kept.
+ */
+const fetchTrafficLegs = async (routes: Route[], departure: Date, provider: RoutingProvider): Promise<Map<Route, RouteLeg[]>> => {
+    const legsByRoute = new Map<Route, RouteLeg[]>();
+    // Imported tracks were never planned by the provider, so they can't be re-planned either
+    const planned = routes.find(r => r.geometry && !isImportedRoute(r));
+    const reference = planned?.geometry;
+    const mode = planned?.mode;
+    if (!provider.supportsTraffic || mode !== 'driving' || !reference || reference.legs.length === 0) {
+        return legsByRoute;
+    }
+
+    // Stops in the order already chosen for the routes
+    const geometries = await provider.route({
+        origin: reference.legs[0].startLocation,
+        destination: reference.legs[reference.legs.length - 1].endLocation,
+        waypoints: reference.legs.slice(0, -1).map(leg => leg.endLocation),
+        optimizeWaypoints: false,
+        alternatives: true,
+        mode,
+        departureTime: departure
+    });
+
+    routes.filter(route => !isImportedRoute(route)).forEach(route => {
+        const match = geometries.find(g =>
+            g.summary === route.geometry?.summary && g.legs.length === route.geometry?.legs.length
+        );
+        if (match) legsByRoute.set(route, match.legs);
+    });
+
+    // Rush-hour durations on some routes against free-flow ones on the rest would favour
+    // whichever routes went unmatched, so a partial match counts as no traffic data
+    const plannedCount = routes.filter(route => route.geometry && !isImportedRoute(route)).length;
+    return legsByRoute.size === plannedCount ? legsByRoute : new Map();
+};
+
+/**
+ * A route as it would be at another departure: ETA, forecast along the way
+ * and which places are open. Geometry and lighting don't change.
+ */
+const retimeRoute = async (route: Route, departure: Date, trafficLegs?: RouteLeg[]): Promise<Route> => {
+    if (!route.geometry) return route;
+
+    // Only durations change; the path, and so the cached OSM lookups along it, stay the same
+    const geometry = trafficLegs ? { ...route.geometry, legs: trafficLegs } : route.geometry;
+    const eta = Math.round(geometry.legs.reduce((sum, leg) => sum + leg.duration, 0) / 60);
+
+    const [weather, activity] = await Promise.all([
+        fetchRouteWeather(geometry, departure).catch(() => undefined),
+        fetchActivityScore(geometry.path, route.distance, departure).catch(() => null)
+    ]);
+
+    return {
+        ...route,
+        geometry,
+        eta,
+        weather: weather ?? route.weather,
+        weatherRisk: weather ? computeWeatherRisk(weather) : route.weatherRisk,
+        activityScore: activity?.score ?? route.activityScore,
+        activity: activity?.stats ?? route.activity
+    };
+};
+
+/**
+ * Scores the routes at every departure in the window with the given profile.
+ * Each slot reports the best route at that time; all slots share one ETA
+ * reference, so a rush-hour delay lowers the score instead of being normalised away.
+ */
+export const evaluateDepartures = async (
+    routes: Route[],
+    window: DepartureWindow,
+    profile: DrivingProfile,
+    provider: RoutingProvider = getRoutingProvider()
+): Promise<DepartureSlot[]> => {
+    if (routes.length === 0) return [];
+
+    const evaluated: { departure: Date, routes: Route[] }[] = [];
+
+    // One departure at a time, to stay within the public APIs' rate limits
+    for (const departure of getDepartureTimes(window)) {
+        let trafficLegs = new Map<Route, RouteLeg[]>();
+        try {
+            trafficLegs = await fetchTrafficLegs(routes, departure, provider);
+        } catch (error) {
+            console.warn("Traffic lookup failed for departure", departure, error);
+        }
+
+        const retimed = await Promise.all(routes.map(route => retimeRoute(route, departure, trafficLegs.get(route))));
+        evaluated.push({ departure, routes: retimed });
+    }
+
+    const fastestEta = Math.min(...evaluated.flatMap(e => e.routes.map(r => r.eta)).filter(eta => eta > 0));
+    const referenceEta = Number.isFinite(fastestEta) ? fastestEta : undefined;
+
+    return evaluated.map(({ departure, routes: retimed }) => {
+        const date = toLocalDate(departure);
+        const time = toLocalTime(departure);
+        const ranked = rankRoutes(retimed, profile, { travelDate: date, travelTime: time, referenceEta });
+        const best = ranked[0];
+
+        return {
+            departure: departure.toISOString(),
+            date,
+            time,
+            score: best.ranking?.score ?? 0,
+            routeId: best.id,
+            eta: best.eta,
+            darknessFraction: best.daylight?.darknessFraction,
+            weatherRisk: best.weatherRisk?.score,
+            routes: ranked
+        };
+    });
+};
+
+/**
+ * Highest scoring departure, the earliest one on a tie
+ */
+export const getRecommendedDeparture = (slots: DepartureSlot[]): DepartureSlot | undefined => {
+    return slots.reduce<DepartureSlot | undefined>((best, slot) => (!best || slot.score > best.score ? slot : best), undefined);
+};
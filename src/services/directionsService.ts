@@ -0,0 +1,109 @@
+import { LatLng, LightingSample, LightingSource, RoadClass, Route, RouteBounds } from '../types';
+import { computeBounds } from '../utils/geo';
+import { UNLIT_THRESHOLD } from './osmService';
+import { classifyHighway, classifyStep } from './roadClassService';
+
+export interface DirectionStep {
+    key: string; // "<leg>-<step>", stable for a route
+    instruction: string;
+    maneuver?: string;
+    distance: number; // in meters
+    duration: number; // in seconds
+    path: LatLng[];
+    bounds: RouteBounds;
+    lightingScore?: number; // 2-10, from the lighting samples on the step
+    lightingSource?: LightingSource;
+    isUnlit: boolean;
+    roadClass: RoadClass;
+    highway?: string; // OSM highway tag, when matched
+    roadClassSource: 'osm' | 'instruction';
+}
+
+export interface DirectionLeg {
+    from: string;
+    to: string;
+    steps: DirectionStep[];
+}
+
+// A sample this far outside a short step still describes the road it is on
+const NEAREST_SAMPLE_REACH_KM = 0.5;
+
+/**
+ * Samples covering a stretch of the route, or the single nearest one when the
+ * stretch is shorter than the sample spacing
+ */
+const samplesForStretch = (samples: LightingSample[], startKm: number, endKm: number): LightingSample[] => {
+    const inside = samples.filter(s => s.distanceKm >= startKm && s.distanceKm <= endKm);
+    if (inside.length > 0 || samples.length === 0) return inside;
+
+    const midKm = (startKm + endKm) / 2;
+    const nearest = samples.reduce((best, s) => Math.abs(s.distanceKm - midKm) < Math.abs(best.distanceKm - midKm) ? s : best);
+    const gapKm = Math.max(0, startKm - nearest.distanceKm, nearest.distanceKm - endKm);
+    return gapKm <= NEAREST_SAMPLE_REACH_KM ? [nearest] : [];
+};
+
+const dominantHighway = (samples: LightingSample[]): string | undefined => {
+    const counts = new Map<string, number>();
+    samples.forEach(s => {
+        if (s.highway) counts.set(s.highway, (counts.get(s.highway) ?? 0) + 1);
+    });
+    let best: string | undefined;
+    counts.forEach((count, highway) => {
+        if (best === undefined || count > counts.get(best)!) best = highway;
+    });
+    return best;
+};
+
+/**
+ * Every manoeuvre of a route, grouped by leg, with the lighting and OSM road
+ * class of the road it leads onto. Step distances are mapped proportionally
+ * onto the lighting profile's km scale, as for the leg summaries.
+ */
+export const buildDirections = (route: Route): DirectionLeg[] => {
+    const legs = route.geometry?.legs || [];
+    const samples = route.lighting?.samples || [];
+    const totalMeters = legs.reduce((sum, leg) => sum + leg.distance, 0);
+    const profileKm = samples[samples.length - 1]?.distanceKm || 0;
+    const toProfileKm = (meters: number) => totalMeters > 0 ? meters / totalMeters * profileKm : 0;
+    let startMeters = 0;
+
+    return legs.map((leg, legIndex) => ({
+        from: leg.startAddress,
+        to: leg.endAddress,
+        steps: leg.steps.map((step, stepIndex): DirectionStep => {
+            const endMeters = startMeters + step.distance;
+            const covering = samplesForStretch(samples, toProfileKm(startMeters), toProfileKm(endMeters));
+            startMeters = endMeters;
+
+            const lightingScore = covering.length > 0
+                ? Number((covering.reduce((sum, s) => sum + s.score, 0) / covering.length).toFixed(1))
+                : undefined;
+            const highway = dominantHighway(covering);
+
+            return {
+                key: `${legIndex}-${stepIndex}`,
+                instruction: step.instruction,
+                maneuver: step.maneuver,
+                distance: step.distance,
+                duration: step.duration,
+                path: step.path,
+                bounds: computeBounds(step.path.length > 0 ? step.path : [leg.startLocation]),
+                lightingScore,
+                lightingSource: covering[0]?.source,
+                isUnlit: lightingScore !== undefined && lightingScore < UNLIT_THRESHOLD,
+                roadClass: highway ? classifyHighway(highway) : classifyStep(step),
+                highway,
+                roadClassSource: highway ? 'osm' : 'instruction'
+            };
+        })
+    }));
+};
+
+export const findDirectionStep = (legs: DirectionLeg[], key?: string): DirectionStep | undefined => {
+    if (!key) return undefined;
+    for (const leg of legs) {
+        const step = leg.steps.find(s => s.key === key);
+        if (step) return step;
+    }
+    return undefined;
+};
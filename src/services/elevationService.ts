@@ -0,0 +1,117 @@
+import { ElevationProfile, ElevationSample, LatLng } from '../types';
+import { fetchJsonCached, withCache } from './cacheService';
+import { cumulativeDistancesKm, pointAtFraction } from '../utils/geo';
+
+const OPEN_METEO_ELEVATION_URL = "https://api.open-meteo.com/v1/elevation";
+
+// Open-Meteo takes up to 100 coordinates per request; Google up to 512 locations
+const OPEN_METEO_BATCH = 100;
+
+// Aim for a sample every 200 m so short steep ramps still show, within sane bounds
+const SAMPLE_SPACING_KM = 0.2;
+const MIN_SAMPLES = 10;
+const MAX_SAMPLES = 256;
+
+// Average climb (m per km) and grade (%) that count as the hilliest terrain, score 10
+const HILLY_CLIMB_PER_KM = 40;
+const HILLY_MAX_GRADE = 12;
+
+const pointsKey = (points: LatLng[]) => points.map(p => `${p.lat.toFixed(5)},${p.lng.toFixed(5)}`).join(';');
+
+// Cached like Open-Meteo's responses, so re-scoring a route doesn't pay for the lookup again
+const elevationsFromGoogle = (points: LatLng[]): Promise<number[]> => {
+    return withCache('elevation', `google:${pointsKey(points)}`, async () => {
+        const { results } = await new google.maps.ElevationService().getElevationForLocations({ locations: points });
+        if (results.length !== points.length) throw new Error("Incomplete elevation response");
+        return results.map(r => r.elevation);
+    });
+};
+
+const elevationsFromOpenMeteo = async (points: LatLng[]): Promise<number[]> => {
+    const elevations: number[] = [];
+    for (let i = 0; i < points.length; i += OPEN_METEO_BATCH) {
+        const batch = points.slice(i, i + OPEN_METEO_BATCH);
+        const latitude = batch.map(p => p.lat.toFixed(5)).join(',');
+        const longitude = batch.map(p => p.lng.toFixed(5)).join(',');
+        const data = await fetchJsonCached<{ elevation?: number[] }>(
+            'elevation',
+            `${OPEN_METEO_ELEVATION_URL}?latitude=${latitude}&longitude=${longitude}`
+        );
+        if (!data.elevation || data.elevation.length !== batch.length) throw new Error("Incomplete elevation response");
+        elevations.push(...data.elevation);
+    }
+    return elevations;
+};
+
+/**
+ * Climb, drop and steepest grade of an elevation profile
+ */
+export const summarizeElevation = (samples: ElevationSample[], source: ElevationProfile['source']): ElevationProfile => {
+    let ascent = 0;
+    let descent = 0;
+    let maxGrade = 0;
+
+    for (let i = 1; i < samples.length; i++) {
+        const rise = samples[i].elevation - samples[i - 1].elevation;
+        const runM = (samples[i].distanceKm - samples[i - 1].distanceKm) * 1000;
+        if (rise > 0) ascent += rise;
+        else descent -= rise;
+        if (runM > 0) maxGrade = Math.max(maxGrade, Math.abs(rise) / runM * 100);
+    }
+
+    const elevations = samples.map(s => s.elevation);
+    return {
+        samples,
+        ascent: Math.round(ascent),
+        descent: Math.round(descent),
+        maxGrade: Number(maxGrade.toFixed(1)),
+        minElevation: Math.round(Math.min(...elevations)),
+        maxElevation: Math.round(Math.max(...elevations)),
+        source
+    };
+};
+
+/**
+ * Hilliness, 0-10: mostly the average climb per km, with the steepest grade on top,
+ * so one short ramp on a flat route doesn't count as hilly
+ */
+export const computeHillinessScore = (profile: ElevationProfile): number => {
+    const totalKm = profile.samples[profile.samples.length - 1]?.distanceKm || 0;
+    if (totalKm <= 0) return 0;
+
+    const climbPerKm = (profile.ascent + profile.descent) / 2 / totalKm;
+    const climb = Math.min(1, climbPerKm / HILLY_CLIMB_PER_KM);
+    const grade = Math.min(1, profile.maxGrade / HILLY_MAX_GRADE);
+    return Number(((climb * 0.7 + grade * 0.3) * 10).toFixed(1));
+};
+
+/**
+ * Elevation along a route path, sampled evenly by distance. Uses the Google
+ * ElevationService when the Maps API is loaded and Open-Meteo otherwise or on
+ * failure. Returns null when neither could be reached.
+ */
+export const fetchElevationProfile = async (path: LatLng[]): Promise<ElevationProfile | null> => {
+    if (path.length < 2) return null;
+
+    const distances = cumulativeDistancesKm(path);
+    const totalKm = distances[distances.length - 1];
+    const count = Math.max(MIN_SAMPLES, Math.min(MAX_SAMPLES, Math.ceil(totalKm / SAMPLE_SPACING_KM) + 1));
+    const fractions = Array.from({ length: count }, (_, i) => i / (count - 1));
+    const points = fractions.map(f => pointAtFraction(path, distances, f));
+    const toSamples = (elevations: number[]) => elevations.map((elevation, i) => ({ distanceKm: fractions[i] * totalKm, elevation }));
+
+    if (window.google?.maps?.ElevationService) {
+        try {
+            return summarizeElevation(toSamples(await elevationsFromGoogle(points)), 'google');
+        } catch (error) {
+            console.warn("Google elevation failed, trying Open-Meteo", error);
+        }
+    }
+
+    try {
+        return summarizeElevation(toSamples(await elevationsFromOpenMeteo(points)), 'open-meteo');
+    } catch (error) {
+        console.error("Elevation fetch failed", error);
+        return null;
+    }
+};
@@ -0,0 +1,228 @@
+import { LatLng, Route, WeatherData } from '../types';
+
+export type ExportFormat = 'gpx' | 'kml' | 'geojson';
+
+// What the routes were planned for, written alongside the scores
+export interface ExportContext {
+    profileName: string;
+    travelDate: string;
+    travelTime: string;
+}
+
+interface WeatherPoint {
+    name: string;
+    location: LatLng;
+    data: WeatherData;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string, extension: string, mimeType: string }> = {
+    gpx: { label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+    kml: { label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+    geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' }
+};
+
+const escapeXml = (value: string): string => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const routeName = (route: Route) => `${route.roadType} route via ${route.description}`;
+
+/**
+ * Flat metadata for a route, shared by all formats
+ */
+const routeProperties = (route: Route, context: ExportContext): Record<string, string | number | null> => ({
+    id: route.id,
+    name: routeName(route),
+    mode: route.mode,
+    source: route.source,
+    destination: route.destination,
+    etaMinutes: route.eta,
+    distanceKm: route.distance,
+    lightingScore: route.lightingScore,
+    activityScore: route.activityScore,
+    infrastructureScore: route.infrastructureScore ?? null,
+    unlitKm: route.lighting?.unlitKm ?? null,
+    darknessFraction: route.daylight?.darknessFraction ?? null,
+    weatherRisk: route.weatherRisk?.score ?? null,
+    weatherHazards: route.weatherRisk?.hazards.join('; ') || null,
+    hillinessScore: route.hillinessScore ?? null,
+    ascentM: route.elevation?.ascent ?? null,
+    descentM: route.elevation?.descent ?? null,
+    maxGradePercent: route.elevation?.maxGrade ?? null,
+    roadType: route.roadType,
+    profile: context.profileName,
+    profileScore: route.ranking?.score ?? null,
+    rank: route.ranking?.rank ?? null,
+    travelDate: context.travelDate,
+    travelTime: context.travelTime
+});
+
+/**
+ * Origin, intermediate stops, cities along the way and destination, where a forecast exists
+ */
+const weatherPoints = (route: Route): WeatherPoint[] => {
+    const weather = route.weather;
+    const legs = route.geometry?.legs;
+    if (!weather || !legs || legs.length === 0) return [];
+
+    const points: (WeatherPoint | null)[] = [
+        { name: 'Origin', location: legs[0].startLocation, data: weather.origin },
+        ...(weather.stops || []).map((data, i) => legs[i] ? { name: `Stop ${i + 1}`, location: legs[i].endLocation, data } : null),
+        ...weather.waypoints.map(wp => wp.location ? { name: wp.name, location: wp.location, data: wp.data } : null),
+        { name: 'Destination', location: legs[legs.length - 1].endLocation, data: weather.destination }
+    ];
+    return points.filter((p): p is WeatherPoint => p !== null && p.data.code >= 0);
+};
+
+const describeWeather = (data: WeatherData) => {
+    const time = data.time ? ` at ${data.time}` : '';
+    return `${data.description}, ${data.temp}°C${time}`;
+};
+
+const describeRoute = (route: Route, context: ExportContext) => {
+    const parts = [
+        `${route.eta} min`,
+        `${route.distance} km`,
+        `lighting ${route.lightingScore}/10`,
+        `activity ${route.activityScore}/10`
+    ];
+    if (route.weatherRisk) parts.push(`weather risk ${route.weatherRisk.score}/10`);
+    if (route.elevation) parts.push(`${route.elevation.ascent} m climb, max grade ${route.elevation.maxGrade}%`);
+    if (route.ranking) parts.push(`${context.profileName} score ${route.ranking.score}`);
+    return `${parts.join(', ')}. Leaving ${context.travelDate} ${context.travelTime}.`;
+};
+
+const toGpx = (routes: Route[], context: ExportContext): string => {
+    const waypoints = routes.flatMap(route => weatherPoints(route).map(point => `
+    <wpt lat="${point.location.lat}" lon="${point.location.lng}">
+        ${point.data.time ? `<time>${point.data.time}</time>` : ''}
+        <name>${escapeXml(point.name)}</name>
+        <desc>${escapeXml(describeWeather(point.data))}</desc>
+        <type>weather</type>
+    </wpt>`));
+
+    const tracks = routes.map(route => {
+        const properties = routeProperties(route, context);
+        const extensions = Object.entries(properties)
+            .filter(([, value]) => value !== null)
+            .map(([key, value]) => `<sd:${key}>${escapeXml(String(value))}</sd:${key}>`)
+            .join('\n            ');
+        const points = (route.geometry?.path || [])
+            .map(p => `<trkpt lat="${p.lat}" lon="${p.lng}" />`)
+            .join('\n            ');
+
+        return `
+    <trk>
+        <name>${escapeXml(routeName(route))}</name>
+        <desc>${escapeXml(describeRoute(route, context))}</desc>
+        <extensions>
+            ${extensions}
+        </extensions>
+        <trkseg>
+            ${points}
+        </trkseg>
+    </trk>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="SmartDrive" xmlns="http://www.topografix.com/GPX/1/1" xmlns:sd="urn:smartdrive:route:1">
+    <metadata>
+        <name>${escapeXml(`${routes[0]?.source ?? ''} to ${routes[0]?.destination ?? ''}`)}</name>
+        <time>${new Date().toISOString()}</time>
+    </metadata>${waypoints.join('')}${tracks.join('')}
+</gpx>
+`;
+};
+
+const toKml = (routes: Route[], context: ExportContext): string => {
+    const placemarks = routes.map(route => {
+        const data = Object.entries(routeProperties(route, context))
+            .filter(([, value]) => value !== null)
+            .map(([key, value]) => `<Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`)
+            .join('\n                ');
+        const coordinates = (route.geometry?.path || []).map(p => `${p.lng},${p.lat},0`).join(' ');
+
+        return `
+        <Placemark>
+            <name>${escapeXml(routeName(route))}</name>
+            <description>${escapeXml(describeRoute(route, context))}</description>
+            <ExtendedData>
+                ${data}
+            </ExtendedData>
+            <LineString>
+                <tessellate>1</tessellate>
+                <coordinates>${coordinates}</coordinates>
+            </LineString>
+        </Placemark>`;
+    });
+
+    const weather = routes.flatMap(route => weatherPoints(route).map(point => `
+        <Placemark>
+            <name>${escapeXml(point.name)}</name>
+            <description>${escapeXml(describeWeather(point.data))}</description>
+            <Point><coordinates>${point.location.lng},${point.location.lat},0</coordinates></Point>
+        </Placemark>`));
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+    <Document>
+        <name>SmartDrive routes</name>${placemarks.join('')}
+        <Folder>
+            <name>Weather</name>${weather.join('')}
+        </Folder>
+    </Document>
+</kml>
+`;
+};
+
+const toGeoJson = (routes: Route[], context: ExportContext): string => {
+    const features = routes.flatMap(route => [
+        {
+            type: 'Feature',
+            geometry: {
+                type: 'LineString',
+                coordinates: (route.geometry?.path || []).map(p => [p.lng, p.lat])
+            },
+            properties: routeProperties(route, context)
+        },
+        ...weatherPoints(route).map(point => ({
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [point.location.lng, point.location.lat] },
+            properties: {
+                kind: 'weather',
+                routeId: route.id,
+                name: point.name,
+                time: point.data.time ?? null,
+                temperature: point.data.temp,
+                description: point.data.description,
+                precipitation: point.data.precipitation ?? null,
+                windGusts: point.data.windGusts ?? null,
+                visibility: point.data.visibility ?? null
+            }
+        }))
+    ]);
+
+    return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
+
+/**
+ * Serialises routes, with their scores and forecasts, for head units and GIS tools
+ */
+export const exportRoutes = (routes: Route[], format: ExportFormat, context: ExportContext): string => {
+    switch (format) {
+        case 'gpx':
+            return toGpx(routes, context);
+        case 'kml':
+            return toKml(routes, context);
+        case 'geojson':
+            return toGeoJson(routes, context);
+    }
+};
+
+export const getExportFilename = (format: ExportFormat, context: ExportContext): string => {
+    const stamp = `${context.travelDate}-${context.travelTime.replace(':', '')}`;
+    return `smartdrive-${stamp}.${EXPORT_FORMATS[format].extension}`;
+};
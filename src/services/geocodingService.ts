@@ -1,37 +1,297 @@
+import { LatLng, LocationBias, RouteBounds } from '../types';
+import { withCache } from './cacheService';
+import { formatCoordinates, parseCoordinates } from '../utils/coordinates';
+import { isFullPlusCode, isShortPlusCode, decodePlusCode, recoverPlusCode } from '../utils/plusCodes';
+
 export interface LocationResult {
     lat: number;
     lon: number;
     display_name: string;
 }
 
-export const geocodeLocation = async (query: string): Promise<LocationResult | null> => {
-    if (!query) return null;
+export type GeocodeSource = 'coordinates' | 'plus_code' | 'google' | 'nominatim';
+
+export interface GeocodeResult extends LocationResult {
+    source: GeocodeSource;
+    confidence: number; // 0-1, how well the result matches the query
+    bounds?: RouteBounds; // extent of the place, when the provider gives one
+}
+
+export interface Geocoder {
+    id: 'google' | 'nominatim';
+    name: string;
+    isAvailable: () => boolean;
+    // Best match first; empty when nothing matches
+    geocode: (query: string, bias?: LocationBias) => Promise<GeocodeResult[]>;
+    reverse: (location: LatLng) => Promise<GeocodeResult | null>;
+}
+
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+// Nominatim's usage policy allows one request per second
+const NOMINATIM_MIN_INTERVAL_MS = 1000;
+
+// Half-size of the box searched around a bias point, in degrees (~50 km)
+const BIAS_RADIUS_DEG = 0.5;
+
+// Matches this close to the best one are treated as real alternatives
+const AMBIGUITY_CONFIDENCE_RATIO = 0.75;
+
+// How precisely Google located the result
+const GOOGLE_CONFIDENCE: Record<string, number> = {
+    ROOFTOP: 1,
+    RANGE_INTERPOLATED: 0.8,
+    GEOMETRIC_CENTER: 0.6,
+    APPROXIMATE: 0.5
+};
+
+interface NominatimPlace {
+    lat: string;
+    lon: string;
+    display_name: string;
+    importance?: number;
+    boundingbox?: [string, string, string, string]; // south, north, west, east
+}
+
+let nextNominatimSlot = 0;
 
-    // Ensure Google Maps API is loaded
-    if (!window.google || !window.google.maps) {
-        console.error("Google Maps API not loaded");
-        return null;
+const waitForNominatim = async () => {
+    const now = Date.now();
+    const wait = Math.max(0, nextNominatimSlot - now);
+    nextNominatimSlot = Math.max(now, nextNominatimSlot) + NOMINATIM_MIN_INTERVAL_MS;
+    if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+};
+
+// Only requests that miss the cache wait their turn
+const fetchNominatim = (url: string): Promise<any> => withCache('nominatim', url, async () => {
+    await waitForNominatim();
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`nominatim request failed: ${response.status}`);
     }
+    return response.json();
+});
 
-    const geocoder = new google.maps.Geocoder();
+const biasBounds = (bias?: LocationBias): RouteBounds | undefined => {
+    if (bias?.center) {
+        const { lat, lng } = bias.center;
+        return { north: lat + BIAS_RADIUS_DEG, south: lat - BIAS_RADIUS_DEG, east: lng + BIAS_RADIUS_DEG, west: lng - BIAS_RADIUS_DEG };
+    }
+    return bias?.bounds;
+};
 
-    try {
-        const response = await geocoder.geocode({ address: query });
-
-        if (response.results && response.results.length > 0) {
-            const result = response.results[0];
-            return {
-                lat: result.geometry.location.lat(),
-                lon: result.geometry.location.lng(),
-                display_name: result.formatted_address
-            };
+const fromNominatim = (place: NominatimPlace): GeocodeResult => {
+    const box = place.boundingbox?.map(Number);
+    return {
+        lat: Number(place.lat),
+        lon: Number(place.lon),
+        display_name: place.display_name,
+        source: 'nominatim',
+        confidence: Math.min(1, Math.max(0, place.importance ?? 0.5)),
+        bounds: box && box.every(isFinite) ? { south: box[0], north: box[1], west: box[2], east: box[3] } : undefined
+    };
+};
+
+/**
+ * OpenStreetMap's Nominatim; needs no key, so it is always the last resort
+ */
+export const nominatimGeocoder: Geocoder = {
+    id: 'nominatim',
+    name: 'Nominatim',
+    isAvailable: () => true,
+    geocode: async (query, bias) => {
+        const params = new URLSearchParams({ format: 'jsonv2', q: query, limit: '5' });
+        const box = biasBounds(bias);
+        if (box) {
+            // Preferred, not enforced: without "bounded" results outside still come back
+            params.set('viewbox', [box.west, box.north, box.east, box.south].map(v => v.toFixed(4)).join(','));
         }
+        const data = await fetchNominatim(`${NOMINATIM_URL}/search?${params.toString()}`);
+        return Array.isArray(data) ? data.map(fromNominatim) : [];
+    },
+    reverse: async ({ lat, lng }) => {
+        const data = await fetchNominatim(`${NOMINATIM_URL}/reverse?format=jsonv2&lat=${lat}&lon=${lng}&zoom=18&addressdetails=1`);
+        return data && data.display_name ? { ...fromNominatim(data), confidence: 1 } : null;
+    }
+};
 
-        console.warn("Geocoding found no results.");
-        return null;
+const fromGoogle = (result: google.maps.GeocoderResult): GeocodeResult => {
+    const viewport = result.geometry.viewport?.toJSON();
+    const confidence = GOOGLE_CONFIDENCE[result.geometry.location_type] ?? 0.5;
+    return {
+        lat: result.geometry.location.lat(),
+        lon: result.geometry.location.lng(),
+        display_name: result.formatted_address,
+        source: 'google',
+        confidence: result.partial_match ? confidence * 0.7 : confidence,
+        bounds: viewport
+    };
+};
+
+// The JS API rejects with ZERO_RESULTS rather than resolving empty
+const isZeroResults = (error: any) => error?.code === 'ZERO_RESULTS' || String(error?.message ?? '').includes('ZERO_RESULTS');
+
+/**
+ * Google's geocoder, via the Maps JS API loaded by useJsApiLoader
+ */
+export const googleGeocoder: Geocoder = {
+    id: 'google',
+    name: 'Google',
+    isAvailable: () => Boolean(window.google && window.google.maps),
+    geocode: async (query, bias) => {
+        try {
+            const response = await new google.maps.Geocoder().geocode({ address: query, bounds: biasBounds(bias) });
+            return (response.results || []).map(fromGoogle);
+        } catch (error) {
+            if (isZeroResults(error)) return [];
+            throw error;
+        }
+    },
+    reverse: async (location) => {
+        try {
+            const response = await new google.maps.Geocoder().geocode({ location });
+            const result = response.results?.[0];
+            return result ? fromGoogle(result) : null;
+        } catch (error) {
+            if (isZeroResults(error)) return null;
+            throw error;
+        }
+    }
+};
 
+/**
+ * The exact place behind a Google Places id, e.g. a picked autocomplete suggestion
+ */
+export const geocodePlaceId = async (placeId: string): Promise<GeocodeResult | null> => {
+    try {
+        const response = await new google.maps.Geocoder().geocode({ placeId });
+        const result = response.results?.[0];
+        return result ? { ...fromGoogle(result), confidence: 1 } : null;
     } catch (error) {
-        console.error("Geocoding failed", error);
-        return null;
+        if (isZeroResults(error)) return null;
+        throw error;
+    }
+};
+
+/**
+ * Providers in the order they are tried: VITE_GEOCODER ("google" | "nominatim")
+ * first, defaulting to Google when a Maps key is set, then Nominatim
+ */
+export const getGeocoderChain = (): Geocoder[] => {
+    const configured = import.meta.env.VITE_GEOCODER;
+    const primary = configured === 'nominatim' ? nominatimGeocoder
+        : configured === 'google' || import.meta.env.VITE_GOOGLE_MAPS_API_KEY ? googleGeocoder
+            : nominatimGeocoder;
+
+    return [primary, nominatimGeocoder].filter((geocoder, i, all) => all.indexOf(geocoder) === i);
+};
+
+const fromPoint = (point: LatLng, source: GeocodeSource, display_name: string = formatCoordinates(point)): GeocodeResult => ({
+    lat: point.lat,
+    lon: point.lng,
+    display_name,
+    source,
+    confidence: 1
+});
+
+/**
+ * The first provider in the chain that finds anything. Failures move on to
+ * the next one; the error is only raised when every provider failed.
+ */
+const geocodeWithChain = async (query: string, bias?: LocationBias): Promise<GeocodeResult[]> => {
+    let lastError: unknown;
+    let anySucceeded = false;
+
+    for (const geocoder of getGeocoderChain()) {
+        if (!geocoder.isAvailable()) continue;
+        try {
+            const results = await geocoder.geocode(query, bias);
+            anySucceeded = true;
+            if (results.length > 0) return results;
+        } catch (error) {
+            console.warn(`${geocoder.name} geocoding failed`, error);
+            lastError = error;
+        }
+    }
+
+    if (!anySucceeded && lastError) {
+        throw new Error("Address lookup is unavailable right now. Please try again.");
+    }
+    return [];
+};
+
+/**
+ * A short plus code followed by a locality, e.g. "CWC8+R9 Mountain View, CA"
+ */
+const parseLocalPlusCode = (query: string): { code: string, locality: string } | null => {
+    const match = query.trim().match(/^(\S+\+\S*)[\s,]+(.+)$/);
+    if (!match || !isShortPlusCode(match[1])) return null;
+    return { code: match[1], locality: match[2] };
+};
+
+/**
+ * Every place that plausibly matches the query, best first. Coordinates and
+ * plus codes resolve directly; more than one result means the name is
+ * ambiguous and the user should pick.
+ */
+export const geocodeCandidates = async (query: string, bias?: LocationBias): Promise<GeocodeResult[]> => {
+    const text = query.trim();
+    if (!text) return [];
+
+    const point = parseCoordinates(text);
+    if (point) return [fromPoint(point, 'coordinates')];
+
+    if (isFullPlusCode(text)) return [fromPoint(decodePlusCode(text), 'plus_code', text.toUpperCase())];
+
+    // A short code on its own is completed from the bias area
+    const reference = bias?.center ?? (bias?.bounds && {
+        lat: (bias.bounds.north + bias.bounds.south) / 2,
+        lng: (bias.bounds.east + bias.bounds.west) / 2
+    });
+    if (isShortPlusCode(text) && reference) {
+        return [fromPoint(recoverPlusCode(text, reference), 'plus_code', text.toUpperCase())];
+    }
+
+    const local = parseLocalPlusCode(text);
+    if (local) {
+        const [locality] = await geocodeWithChain(local.locality, bias);
+        if (locality) {
+            const recovered = recoverPlusCode(local.code, { lat: locality.lat, lng: locality.lon });
+            return [fromPoint(recovered, 'plus_code', `${local.code.toUpperCase()} ${locality.display_name}`)];
+        }
+    }
+
+    const results = await geocodeWithChain(text, bias);
+    // Minor matches (a street named after the town, etc.) aren't real alternatives
+    const best = results[0]?.confidence ?? 0;
+    return results.filter((result, i) => i === 0 || result.confidence >= best * AMBIGUITY_CONFIDENCE_RATIO);
+};
+
+/**
+ * The best match for the query; throws when nothing matches
+ */
+export const geocodeLocation = async (query: string, bias?: LocationBias): Promise<GeocodeResult> => {
+    const [best] = await geocodeCandidates(query, bias);
+    if (!best) {
+        throw new Error(`No place found for "${query}".`);
+    }
+    return best;
+};
+
+/**
+ * Address for a position from the first provider that has one, or the
+ * coordinates themselves so the caller always has something to show
+ */
+export const reverseGeocode = async (location: LatLng): Promise<GeocodeResult> => {
+    for (const geocoder of getGeocoderChain()) {
+        if (!geocoder.isAvailable()) continue;
+        try {
+            const result = await geocoder.reverse(location);
+            // Keep the exact position; the address is only a label for it
+            if (result) return { ...result, lat: location.lat, lon: location.lng };
+        } catch (error) {
+            console.warn(`${geocoder.name} reverse geocoding failed`, error);
+        }
     }
+    return fromPoint(location, 'coordinates');
 };
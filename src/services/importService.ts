@@ -0,0 +1,228 @@
+import { LatLng, Route, RouteGeometry, RouteStep, TravelMode } from '../types';
+import { computeBounds, haversineKm } from '../utils/geo';
+import { scoreGeometry } from './routeService';
+import { toDepartureDate } from './daylightService';
+
+export const IMPORT_PROVIDER = 'import';
+
+// Assumed average speeds for tracks without timestamps
+const DEFAULT_SPEEDS_KMH: Record<TravelMode, number> = {
+    driving: 50,
+    walking: 5,
+    cycling: 16
+};
+
+// Imported tracks are split into steps of about this length, so timestamps shape the ETA timeline
+const STEP_KM = 1;
+
+export interface ImportedTrack {
+    name: string;
+    points: LatLng[];
+    times: (number | undefined)[]; // ms since epoch per point, when recorded
+}
+
+export const isImportedRoute = (route: Route): boolean => route.geometry?.provider === IMPORT_PROVIDER;
+
+const parseTime = (value?: string | null): number | undefined => {
+    if (!value) return undefined;
+    const time = Date.parse(value);
+    return isNaN(time) ? undefined : time;
+};
+
+const childText = (element: Element, tag: string): string | undefined => {
+    return element.getElementsByTagName(tag)[0]?.textContent?.trim() || undefined;
+};
+
+const parseXml = (contents: string): Document => {
+    const doc = new DOMParser().parseFromString(contents, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error("The file is not valid XML");
+    }
+    return doc;
+};
+
+const parseGpx = (contents: string, fallbackName: string): ImportedTrack[] => {
+    const doc = parseXml(contents);
+
+    // Tracks are recorded, routes are planned; both are lists of points
+    const groups: [Element, string][] = [
+        ...Array.from(doc.getElementsByTagName('trk')).map((el): [Element, string] => [el, 'trkpt']),
+        ...Array.from(doc.getElementsByTagName('rte')).map((el): [Element, string] => [el, 'rtept'])
+    ];
+
+    return groups.map(([group, pointTag], i) => {
+        const points = Array.from(group.getElementsByTagName(pointTag));
+        return {
+            name: childText(group, 'name') || `${fallbackName} ${i + 1}`,
+            points: points.map(p => ({ lat: Number(p.getAttribute('lat')), lng: Number(p.getAttribute('lon')) })),
+            times: points.map(p => parseTime(childText(p, 'time')))
+        };
+    });
+};
+
+const parseKml = (contents: string, fallbackName: string): ImportedTrack[] => {
+    const doc = parseXml(contents);
+    const tracks: ImportedTrack[] = [];
+
+    Array.from(doc.getElementsByTagName('Placemark')).forEach(placemark => {
+        const name = childText(placemark, 'name') || `${fallbackName} ${tracks.length + 1}`;
+
+        // Plain lines: "lng,lat[,alt]" tuples separated by whitespace
+        Array.from(placemark.getElementsByTagName('LineString')).forEach(line => {
+            const points = (childText(line, 'coordinates') || '')
+                .split(/\s+/)
+                .filter(Boolean)
+                .map(tuple => {
+                    const [lng, lat] = tuple.split(',').map(Number);
+                    return { lat, lng };
+                });
+            tracks.push({ name, points, times: points.map(() => undefined) });
+        });
+
+        // Recorded tracks: paired <when> and <gx:coord> ("lng lat alt")
+        Array.from(placemark.getElementsByTagName('gx:Track')).forEach(track => {
+            const whens = Array.from(track.getElementsByTagName('when'));
+            const coords = Array.from(track.getElementsByTagName('gx:coord'));
+            const points = coords.map(c => {
+                const [lng, lat] = (c.textContent || '').trim().split(/\s+/).map(Number);
+                return { lat, lng };
+            });
+            tracks.push({ name, points, times: coords.map((_, i) => parseTime(whens[i]?.textContent)) });
+        });
+    });
+
+    return tracks;
+};
+
+const parseGeoJson = (contents: string, fallbackName: string): ImportedTrack[] => {
+    const data = JSON.parse(contents);
+    const features: any[] = data.type === 'FeatureCollection' ? data.features || []
+        : data.type === 'Feature' ? [data]
+            : [{ type: 'Feature', geometry: data, properties: {} }];
+
+    return features.flatMap((feature, i) => {
+        const geometry = feature.geometry || {};
+        const properties = feature.properties || {};
+        const name = properties.name || `${fallbackName} ${i + 1}`;
+        const lines: number[][][] = geometry.type === 'LineString' ? [geometry.coordinates]
+            : geometry.type === 'MultiLineString' ? geometry.coordinates
+                : [];
+        // Timestamps as written by e.g. togeojson
+        const times: any[][] = properties.coordinateProperties?.times
+            ? (geometry.type === 'LineString' ? [properties.coordinateProperties.times] : properties.coordinateProperties.times)
+            : [];
+
+        return lines.map((coordinates, lineIndex) => ({
+            name: lines.length > 1 ? `${name} (${lineIndex + 1})` : name,
+            points: coordinates.map(([lng, lat]) => ({ lat, lng })),
+            times: coordinates.map((_, p) => parseTime(times[lineIndex]?.[p]))
+        }));
+    });
+};
+
+/**
+ * Reads the tracks in a GPX, KML or GeoJSON file, by extension or content
+ */
+export const parseTrackFile = (fileName: string, contents: string): ImportedTrack[] => {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+    const trimmed = contents.trimStart();
+
+    let tracks: ImportedTrack[];
+    if (extension === 'gpx' || (trimmed.startsWith('<') && trimmed.includes('<gpx'))) {
+        tracks = parseGpx(contents, baseName);
+    } else if (extension === 'kml' || (trimmed.startsWith('<') && trimmed.includes('<kml'))) {
+        tracks = parseKml(contents, baseName);
+    } else {
+        tracks = parseGeoJson(contents, baseName);
+    }
+
+    return tracks
+        .map(track => {
+            // Drop points that didn't parse, keeping timestamps aligned
+            const valid = track.points.map((p, i) => ({ p, t: track.times[i] })).filter(({ p }) => isFinite(p.lat) && isFinite(p.lng));
+            return { ...track, points: valid.map(v => v.p), times: valid.map(v => v.t) };
+        })
+        .filter(track => track.points.length >= 2);
+};
+
+/**
+ * Turns a track into a single-leg geometry. Step durations come from the
+ * timestamps where recorded, otherwise from the track's (or the mode's) average speed.
+ */
+export const trackToGeometry = (track: ImportedTrack, mode: TravelMode): RouteGeometry => {
+    const { points, times } = track;
+
+    // Average speed over the timed segments, for the segments without times
+    let timedKm = 0;
+    let timedSeconds = 0;
+    for (let i = 1; i < points.length; i++) {
+        const a = times[i - 1];
+        const b = times[i];
+        if (a !== undefined && b !== undefined && b >= a) {
+            timedKm += haversineKm(points[i - 1], points[i]);
+            timedSeconds += (b - a) / 1000;
+        }
+    }
+    const speedKmh = timedSeconds > 0 && timedKm > 0 ? timedKm / (timedSeconds / 3600) : DEFAULT_SPEEDS_KMH[mode];
+
+    const steps: RouteStep[] = [];
+    let step: RouteStep = { instruction: `Follow ${track.name}`, distance: 0, duration: 0, path: [points[0]] };
+    for (let i = 1; i < points.length; i++) {
+        const km = haversineKm(points[i - 1], points[i]);
+        const a = times[i - 1];
+        const b = times[i];
+        const seconds = a !== undefined && b !== undefined && b >= a ? (b - a) / 1000 : km / speedKmh * 3600;
+
+        step.distance += km * 1000;
+        step.duration += seconds;
+        step.path.push(points[i]);
+
+        if (step.distance >= STEP_KM * 1000 || i === points.length - 1) {
+            steps.push(step);
+            step = { instruction: `Follow ${track.name}`, distance: 0, duration: 0, path: [points[i]] };
+        }
+    }
+
+    const distance = steps.reduce((sum, s) => sum + s.distance, 0);
+    const duration = steps.reduce((sum, s) => sum + s.duration, 0);
+
+    return {
+        provider: IMPORT_PROVIDER,
+        summary: track.name,
+        path: points,
+        bounds: computeBounds(points),
+        legs: [{
+            startAddress: `${track.name} (start)`,
+            endAddress: `${track.name} (end)`,
+            startLocation: points[0],
+            endLocation: points[points.length - 1],
+            distance,
+            duration,
+            steps
+        }]
+    };
+};
+
+/**
+ * Parses a track file and scores every track in it like a generated route
+ */
+export const importTrackFile = async (
+    fileName: string,
+    contents: string,
+    mode: TravelMode,
+    travelTime?: string,
+    travelDate?: string
+): Promise<Route[]> => {
+    const tracks = parseTrackFile(fileName, contents);
+    if (tracks.length === 0) {
+        throw new Error("No tracks or lines found in the file");
+    }
+
+    const travelAt = travelDate && travelTime ? toDepartureDate(travelDate, travelTime) : undefined;
+    // Unique per import, so the same file can be loaded twice for comparison
+    const batch = Date.now().toString(36);
+
+    const routes = await Promise.all(tracks.map((track, index) => scoreGeometry(trackToGeometry(track, mode), index, mode, travelAt)));
+    return routes.map((route, index) => ({ ...route, id: `route-${IMPORT_PROVIDER}-${batch}-${index}` }));
+};
@@ -0,0 +1,308 @@
+import { LatLng } from '../types';
+import { computeBounds, distanceToPolylineKm } from '../utils/geo';
+import type { AreaFilter, OverpassElement, OverpassQuery, OverpassResponse, OverpassStatement, OverpassTags, TagFilter } from './overpassClient';
+
+// A regional OSM extract held in memory, answering the same structured queries
+// as the Overpass API. Accepts GeoJSON as written by `osmium export` or
+// osmtogeojson, or the compact index saved from a previously loaded extract.
+
+const INDEX_FORMAT = 'smartdrive-osm-index';
+const INDEX_VERSION = 1;
+
+// Grid cell size in degrees, ~1 km
+const CELL_SIZE = 0.01;
+const KM_PER_DEG_LAT = 111.32;
+
+// Only features the scoring looks at are kept
+const RELEVANT_KEYS = ['highway', 'place', 'shop', 'amenity', 'building', 'lit'];
+
+interface IndexedElement {
+    type: 'node' | 'way';
+    id: number;
+    tags: OverpassTags;
+    coords: [number, number][]; // [lat, lng]; one pair for nodes
+}
+
+// South, west, north, east
+type Bounds = [number, number, number, number];
+
+interface LocalExtract {
+    name: string;
+    elements: IndexedElement[];
+    cells: Map<string, number[]>; // cell key -> element indexes
+    bounds: Bounds; // extent of the data, taken as the area the extract covers
+}
+
+export interface LocalExtractInfo {
+    name: string;
+    nodes: number;
+    ways: number;
+}
+
+let extract: LocalExtract | null = null;
+
+const cellKey = (x: number, y: number) => `${x}:${y}`;
+const toCell = (deg: number) => Math.floor(deg / CELL_SIZE);
+
+const toLatLng = ([lat, lng]: [number, number]): LatLng => ({ lat, lng });
+
+/**
+ * Builds the grid index: every element is listed in each cell its bounding box touches
+ */
+const buildExtract = (name: string, elements: IndexedElement[]): LocalExtract => {
+    const cells = new Map<string, number[]>();
+    const bounds: Bounds = [Infinity, Infinity, -Infinity, -Infinity];
+    elements.forEach((element, index) => {
+        // A loop rather than spreading the coordinates, which overflows the stack on coastlines
+        const { south, west, north, east } = computeBounds(element.coords.map(toLatLng));
+        bounds[0] = Math.min(bounds[0], south);
+        bounds[1] = Math.min(bounds[1], west);
+        bounds[2] = Math.max(bounds[2], north);
+        bounds[3] = Math.max(bounds[3], east);
+        for (let x = toCell(west); x <= toCell(east); x++) {
+            for (let y = toCell(south); y <= toCell(north); y++) {
+                const key = cellKey(x, y);
+                if (!cells.has(key)) cells.set(key, []);
+                cells.get(key)!.push(index);
+            }
+        }
+    });
+    return { name, elements, cells, bounds };
+};
+
+/**
+ * OSM type and id of a GeoJSON feature, from "way/123" style ids or @type/@id properties
+ */
+const parseFeatureId = (feature: any): { type?: string, id?: number } => {
+    const raw = String(feature.id ?? feature.properties?.['@id'] ?? feature.properties?.id ?? '');
+    const match = raw.match(/^(node|way|relation)\/(\d+)$/);
+    if (match) return { type: match[1], id: Number(match[2]) };
+    return { type: feature.properties?.['@type'], id: Number(raw) || undefined };
+};
+
+const fromGeoJson = (data: any): IndexedElement[] => {
+    const elements: IndexedElement[] = [];
+    (data.features || []).forEach((feature: any, i: number) => {
+        const properties = feature.properties || {};
+        // osmtogeojson nests tags; osmium writes them as plain properties
+        const tags: OverpassTags = properties.tags || Object.fromEntries(
+            Object.entries(properties).filter(([key]) => !key.startsWith('@') && key !== 'id')
+        );
+        if (!RELEVANT_KEYS.some(key => key in tags)) return;
+
+        const { type, id } = parseFeatureId(feature);
+        const geometry = feature.geometry || {};
+        const toCoords = (line: number[][] = []): [number, number][] => line.map(([lng, lat]) => [lat, lng]);
+        // Polygons keep their outer ring only. Multi-part geometries (osmium writes
+        // every area as a MultiPolygon) become one element per part, sharing the id.
+        let parts: [number, number][][] = [];
+        if (geometry.type === 'Point') {
+            parts = [[[geometry.coordinates[1], geometry.coordinates[0]]]];
+        } else if (geometry.type === 'LineString') {
+            parts = [toCoords(geometry.coordinates)];
+        } else if (geometry.type === 'MultiLineString') {
+            parts = geometry.coordinates.map(toCoords);
+        } else if (geometry.type === 'Polygon') {
+            parts = [toCoords(geometry.coordinates[0])];
+        } else if (geometry.type === 'MultiPolygon') {
+            parts = geometry.coordinates.map((polygon: number[][][]) => toCoords(polygon[0]));
+        }
+
+        parts.filter(coords => coords.length > 0).forEach(coords => elements.push({
+            type: geometry.type === 'Point' && type !== 'way' ? 'node' : 'way',
+            id: id ?? i,
+            tags,
+            coords
+        }));
+    });
+    return elements;
+};
+
+/**
+ * Parses an extract file's contents and makes it the active data source
+ */
+export const loadLocalExtract = (name: string, contents: string): LocalExtractInfo => {
+    const data = JSON.parse(contents);
+
+    let elements: IndexedElement[];
+    if (data.format === INDEX_FORMAT) {
+        if (data.version !== INDEX_VERSION) {
+            throw new Error(`Unsupported index version ${data.version}`);
+        }
+        elements = data.elements;
+    } else if (data.type === 'FeatureCollection') {
+        elements = fromGeoJson(data);
+    } else {
+        throw new Error("Expected GeoJSON or a saved SmartDrive index");
+    }
+
+    extract = buildExtract(name, elements);
+    return getLocalExtractInfo()!;
+};
+
+export const unloadLocalExtract = (): void => {
+    extract = null;
+};
+
+export const getLocalExtractInfo = (): LocalExtractInfo | null => {
+    if (!extract) return null;
+    // Parts of one multi-part feature count once
+    const ids = new Set(extract.elements.map(e => `${e.type}/${e.id}`));
+    const nodes = Array.from(ids).filter(id => id.startsWith('node/')).length;
+    return { name: extract.name, nodes, ways: ids.size - nodes };
+};
+
+/**
+ * The loaded extract as a compact index, which loads faster than the GeoJSON it came from
+ */
+export const serializeLocalExtract = (): string | null => {
+    if (!extract) return null;
+    return JSON.stringify({ format: INDEX_FORMAT, version: INDEX_VERSION, elements: extract.elements });
+};
+
+const tagMatcher = (filters: TagFilter[]): ((tags: OverpassTags) => boolean) => {
+    const checks = filters.map(filter => {
+        const pattern = filter.pattern !== undefined ? new RegExp(filter.pattern) : undefined;
+        return (tags: OverpassTags) => {
+            const value = tags[filter.key];
+            if (value === undefined) return false;
+            if (filter.value !== undefined) return value === filter.value;
+            return pattern ? pattern.test(value) : true;
+        };
+    });
+    return tags => checks.every(check => check(tags));
+};
+
+const isInsidePolygon = (point: LatLng, polygon: LatLng[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.lat > point.lat) !== (b.lat > point.lat)
+            && point.lng < (b.lng - a.lng) * (point.lat - a.lat) / (b.lat - a.lat) + a.lng) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+/**
+ * Bounding boxes (south, west, north, east) to look up in the grid for an area
+ */
+const areaBoxes = (area: AreaFilter): [number, number, number, number][] => {
+    const padded = (points: LatLng[], km: number): [number, number, number, number] => {
+        const lats = points.map(p => p.lat);
+        const lngs = points.map(p => p.lng);
+        const dLat = km / KM_PER_DEG_LAT;
+        const dLng = km / (KM_PER_DEG_LAT * Math.cos(Math.max(...lats.map(Math.abs)) * Math.PI / 180));
+        return [Math.min(...lats) - dLat, Math.min(...lngs) - dLng, Math.max(...lats) + dLat, Math.max(...lngs) + dLng];
+    };
+
+    switch (area.type) {
+        case 'around': {
+            const km = area.radius / 1000;
+            if (!area.asLine || area.points.length < 2) return area.points.map(p => padded([p], km));
+            return area.points.slice(1).map((p, i) => padded([area.points[i], p], km));
+        }
+        case 'poly':
+            return [padded(area.points, 0)];
+        case 'bbox':
+            return [[area.south, area.west, area.north, area.east]];
+    }
+};
+
+const isInArea = (element: IndexedElement, area: AreaFilter): boolean => {
+    const points = element.coords.map(toLatLng);
+
+    switch (area.type) {
+        case 'around': {
+            const km = area.radius / 1000;
+            if (!area.asLine) {
+                // Matched separately around each point, as Overpass does
+                return area.points.some(center => (points.length === 1
+                    ? distanceToPolylineKm(points[0], [center])
+                    : distanceToPolylineKm(center, points)) <= km);
+            }
+            // Near the line through the points: check both shapes against each other
+            return points.some(p => distanceToPolylineKm(p, area.points) <= km)
+                || (points.length > 1 && area.points.some(p => distanceToPolylineKm(p, points) <= km));
+        }
+        case 'poly':
+            return points.some(p => isInsidePolygon(p, area.points));
+        case 'bbox':
+            return points.some(p => p.lat >= area.south && p.lat <= area.north && p.lng >= area.west && p.lng <= area.east);
+    }
+};
+
+const runStatement = (source: LocalExtract, statement: OverpassStatement): IndexedElement[] => {
+    const candidates = new Set<number>();
+    areaBoxes(statement.area).forEach(([south, west, north, east]) => {
+        for (let x = toCell(west); x <= toCell(east); x++) {
+            for (let y = toCell(south); y <= toCell(north); y++) {
+                source.cells.get(cellKey(x, y))?.forEach(index => candidates.add(index));
+            }
+        }
+    });
+
+    const matchesTags = tagMatcher(statement.tags || []);
+    return Array.from(candidates)
+        .map(index => source.elements[index])
+        .filter(element => (statement.element === 'nwr' || statement.element === element.type)
+            && matchesTags(element.tags)
+            && isInArea(element, statement.area));
+};
+
+const toOverpassElement = (element: IndexedElement, withGeometry: boolean): OverpassElement => {
+    if (element.type === 'node') {
+        const [lat, lon] = element.coords[0];
+        return { type: 'node', id: element.id, lat, lon, tags: element.tags };
+    }
+    return {
+        type: 'way',
+        id: element.id,
+        tags: element.tags,
+        geometry: withGeometry ? element.coords.map(([lat, lon]) => ({ lat, lon })) : undefined
+    };
+};
+
+/**
+ * Whether every area the query looks at lies within the loaded extract,
+ * so the answer isn't cut off at the extract's edge
+ */
+export const localExtractCovers = (query: OverpassQuery): boolean => {
+    if (!extract) return false;
+    const [south, west, north, east] = extract.bounds;
+    return query.sets.every(set => set.statements.every(statement => areaBoxes(statement.area).every(box =>
+        box[0] >= south && box[1] >= west && box[2] <= north && box[3] <= east
+    )));
+};
+
+/**
+ * Answers a structured Overpass query from the loaded extract
+ */
+export const queryLocalExtract = (query: OverpassQuery): OverpassResponse => {
+    if (!extract) throw new Error("No local OSM extract loaded");
+    const source = extract;
+
+    const elements = query.sets.flatMap((set): OverpassElement[] => {
+        // A set is a union, so elements matched by several statements (or parts) appear once
+        const matched = new Map<string, IndexedElement>();
+        set.statements.forEach(statement => {
+            runStatement(source, statement).forEach(e => matched.set(`${e.type}/${e.id}`, e));
+        });
+        const results = Array.from(matched.values());
+
+        if (set.output === 'count') {
+            const nodes = results.filter(e => e.type === 'node').length;
+            const ways = results.length - nodes;
+            return [{
+                type: 'count',
+                id: 0,
+                tags: { nodes: String(nodes), ways: String(ways), relations: '0', total: String(results.length) }
+            }];
+        }
+        return results.map(e => toOverpassElement(e, set.output.includes('geom')));
+    });
+
+    return { elements };
+};
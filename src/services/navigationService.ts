@@ -0,0 +1,126 @@
+import { LatLng, Route, TravelMode } from '../types';
+import { cumulativeDistancesKm, projectOntoPolyline } from '../utils/geo';
+import { buildEtaTimeline, secondsAtDistanceFraction } from '../utils/timeline';
+import { DirectionStep, buildDirections } from './directionsService';
+import { PositionFix } from './positionSources';
+
+export interface NavigationProgress {
+    position: LatLng; // as reported
+    snapped: LatLng; // on the route
+    offRouteKm: number;
+    isOffRoute: boolean; // away from the route for long enough to re-plan
+    travelledKm: number;
+    remainingKm: number;
+    remainingSeconds: number;
+    fraction: number; // 0-1 of the route covered
+    legIndex: number;
+    currentStep?: DirectionStep;
+    nextStep?: DirectionStep;
+    metersToNextStep?: number;
+    hasArrived: boolean;
+}
+
+// Further than this from the route counts as off it; GPS wanders more on foot in cities
+const OFF_ROUTE_KM: Record<TravelMode, number> = {
+    driving: 0.06,
+    walking: 0.04,
+    cycling: 0.05
+};
+
+// ...for at least this long and this many fixes in a row, so one bad fix doesn't re-plan
+const OFF_ROUTE_MS = 8000;
+const OFF_ROUTE_FIXES = 3;
+
+const ARRIVAL_KM = 0.03;
+
+// Snapping looks this far back and ahead of the last match before searching the whole route,
+// so a route that passes the same place twice isn't jumped along
+const SNAP_BACK_KM = 0.2;
+const SNAP_AHEAD_KM = 2;
+
+export interface RouteTracker {
+    update: (fix: PositionFix) => NavigationProgress;
+}
+
+/**
+ * Follows fixes along one route: snaps them onto it, measures progress
+ * against its steps and ETA timeline, and watches for leaving it.
+ */
+export const createRouteTracker = (route: Route): RouteTracker => {
+    const path = route.geometry?.path || [];
+    const distances = cumulativeDistancesKm(path);
+    const pathKm = distances[distances.length - 1] || 0;
+    const timeline = route.geometry ? buildEtaTimeline(route.geometry) : null;
+
+    // Step starts in meters along the route, on the provider's distance scale
+    const legs = buildDirections(route);
+    const steps = legs.flatMap(leg => leg.steps);
+    const stepLegs = legs.flatMap((leg, legIndex) => leg.steps.map(() => legIndex));
+    const stepStarts: number[] = [];
+    steps.reduce((meters, step) => {
+        stepStarts.push(meters);
+        return meters + step.distance;
+    }, 0);
+    const totalMeters = steps.reduce((sum, step) => sum + step.distance, 0);
+
+    const threshold = OFF_ROUTE_KM[route.mode];
+    let lastAlongKm = 0;
+    let offSince: number | null = null;
+    let offFixes = 0;
+
+    const segmentRange = (fromKm: number, toKm: number): [number, number] => {
+        let first = 0;
+        while (first < distances.length - 2 && distances[first + 1] < fromKm) first++;
+        let last = first;
+        while (last < distances.length - 2 && distances[last] < toKm) last++;
+        return [first, last];
+    };
+
+    const update = (fix: PositionFix): NavigationProgress => {
+        const [first, last] = segmentRange(lastAlongKm - SNAP_BACK_KM, lastAlongKm + SNAP_AHEAD_KM);
+        let match = projectOntoPolyline(fix.position, path, distances, first, last);
+        if (match.distanceKm > threshold) {
+            const anywhere = projectOntoPolyline(fix.position, path, distances);
+            if (anywhere.distanceKm < match.distanceKm) match = anywhere;
+        }
+
+        if (match.distanceKm > threshold) {
+            if (offSince === null) offSince = fix.timestamp;
+            offFixes++;
+        } else {
+            offSince = null;
+            offFixes = 0;
+            lastAlongKm = match.alongKm;
+        }
+        const isOffRoute = offSince !== null && offFixes >= OFF_ROUTE_FIXES && fix.timestamp - offSince >= OFF_ROUTE_MS;
+
+        const travelledKm = offSince === null ? match.alongKm : lastAlongKm;
+        const fraction = pathKm > 0 ? Math.min(1, travelledKm / pathKm) : 0;
+        const totalSeconds = timeline?.totalSeconds ?? 0;
+        const remainingSeconds = timeline ? Math.max(0, totalSeconds - secondsAtDistanceFraction(timeline, fraction)) : 0;
+
+        const travelledMeters = fraction * totalMeters;
+        let stepIndex = 0;
+        while (stepIndex < steps.length - 1 && stepStarts[stepIndex + 1] <= travelledMeters) stepIndex++;
+        const currentStep = steps[stepIndex];
+        const nextStep = steps[stepIndex + 1];
+
+        return {
+            position: fix.position,
+            snapped: match.point,
+            offRouteKm: match.distanceKm,
+            isOffRoute,
+            travelledKm,
+            remainingKm: Math.max(0, pathKm - travelledKm),
+            remainingSeconds,
+            fraction,
+            legIndex: stepLegs[stepIndex] ?? 0,
+            currentStep,
+            nextStep,
+            metersToNextStep: nextStep ? Math.max(0, stepStarts[stepIndex + 1] - travelledMeters) : undefined,
+            hasArrived: pathKm - travelledKm <= ARRIVAL_KM
+        };
+    };
+
+    return { update };
+};
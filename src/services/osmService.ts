@@ -1,180 +1,359 @@
-export interface LatLng {
-    lat: number;
-    lng: number;
-}
+import { LatLng, LightingProfile, LightingSample, LightingSource, LightingStretch, TravelMode } from '../types';
+import { cumulativeDistancesKm, distanceToPolylineKm } from '../utils/geo';
+import { OverpassWay, around, hasTag, runOverpassQuery, tagMatches } from './overpassClient';
+
+type PathSample = Pick<LightingSample, 'point' | 'pathIndex' | 'distanceKm'>;
 
-const OVERPASS_API_URL = "https://overpass-api.de/api/interpreter";
-const lightingCache = new Map<string, number>();
+// Search radius around each sample, shared by the query and the local matching
+const LIGHTING_RADIUS_M = 100;
+// Segments scoring below this are counted as unlit
+export const UNLIT_THRESHOLD = 4;
 
 /**
- * Fetches lighting score based on OSM data
- * Uses explicit "lit" tags when available, falls back to road-type heuristics
- * Returns a score (2-10)
- * Now includes caching and retries to improved consistency.
+ * Scores a single OSM way for lighting.
+ * Explicit "lit" tags win, otherwise the road class is used as a heuristic.
  */
-export const fetchLightingScore = async (path: LatLng[]): Promise<number> => {
-    if (!path || path.length === 0) {
-        console.warn("Empty path provided to fetchLightingScore");
-        return 5;
+const scoreWayLighting = (tags: Record<string, string>): { score: number; source: LightingSource } => {
+    const lit = tags.lit;
+
+    // 1. Explicit lighting tags (Highest Priority)
+    if (lit === 'yes') {
+        return { score: 10, source: 'lit_tag' }; // Well-lit
+    } else if (lit === '24/7' || lit === 'automatic' || lit === 'stay_on') {
+        return { score: 10, source: 'lit_tag' }; // Always lit
+    } else if (lit === 'limited' || lit === 'interval') {
+        return { score: 6, source: 'lit_tag' }; // Partially lit
+    } else if (lit === 'sunset-sunrise' || lit === 'dusk-dawn') {
+        return { score: 7, source: 'lit_tag' }; // Lit during night hours
+    } else if (lit === 'no' || lit === 'disused') {
+        return { score: 2, source: 'lit_tag' }; // Not lit
     }
 
-    // Sample points along the route for analysis
-    const samples = samplePoints(path, 15); // Increased from 10 to 15 for better accuracy
+    // 2. Heuristics based on road type (Fallback)
+    switch (tags.highway) {
+        case 'motorway':
+        case 'motorway_link':
+        case 'trunk':
+        case 'trunk_link':
+        case 'primary':
+        case 'primary_link':
+            return { score: 9, source: 'heuristic' }; // Major roads usually lit
+        case 'secondary':
+        case 'secondary_link':
+            return { score: 8, source: 'heuristic' };
+        case 'tertiary':
+        case 'tertiary_link':
+            return { score: 7, source: 'heuristic' };
+        case 'residential':
+        case 'living_street':
+        case 'pedestrian':
+            return { score: 6, source: 'heuristic' }; // Usually have streetlights
+        case 'service':
+        case 'track':
+        case 'path':
+        case 'bridleway':
+            return { score: 3, source: 'heuristic' }; // Likely unlit
+        default:
+            return { score: 5, source: 'unknown' };
+    }
+};
 
-    // Generate a stable cache key based on the sampled points
-    const cacheKey = JSON.stringify(samples.map(p => `${p.lat.toFixed(4)},${p.lng.toFixed(4)}`));
+const PEDESTRIAN_WAYS = ['footway', 'pedestrian', 'path', 'steps', 'living_street'];
+const MOTOR_ONLY_WAYS = ['motorway', 'motorway_link', 'trunk', 'trunk_link'];
+const NON_MOTOR_WAYS = ['footway', 'path', 'cycleway', 'steps', 'pedestrian', 'bridleway'];
+const ROUGH_SURFACES = ['unpaved', 'gravel', 'fine_gravel', 'dirt', 'earth', 'ground', 'sand', 'grass', 'mud'];
+const BUMPY_SURFACES = ['cobblestone', 'sett', 'unhewn_cobblestone', 'paving_stones'];
 
-    if (lightingCache.has(cacheKey)) {
-        return lightingCache.get(cacheKey)!;
+/**
+ * Whether a way can be travelled in the given mode, used to pick the way a sample is on
+ */
+const isUsableWay = (tags: Record<string, string>, mode: TravelMode): boolean => {
+    const highway = tags.highway;
+    switch (mode) {
+        case 'walking':
+            return !MOTOR_ONLY_WAYS.includes(highway) || tags.foot === 'yes';
+        case 'cycling':
+            if (highway === 'motorway' || highway === 'motorway_link' || highway === 'steps') return false;
+            if (highway === 'footway' || highway === 'pedestrian') {
+                return tags.bicycle === 'yes' || tags.bicycle === 'designated';
+            }
+            return true;
+        default:
+            return !NON_MOTOR_WAYS.includes(highway);
     }
+};
 
-    try {
-        // Construct Overpass query to fetch highway data
-        let queryParts = "";
-        samples.forEach(pt => {
-            const lat = Number(pt.lat.toFixed(4));
-            const lng = Number(pt.lng.toFixed(4));
-            // Increased radius from 60m to 100m to catch more roads
-            queryParts += `way(around:100,${lat},${lng})["highway"];`;
-        });
+/**
+ * Scores how well a way caters for walking or cycling (0-10).
+ * Walking looks at footways, sidewalks and crossings; cycling at cycleways and surface.
+ */
+const scoreWayInfrastructure = (tags: Record<string, string>, mode: TravelMode): number | undefined => {
+    const highway = tags.highway;
+
+    if (mode === 'walking') {
+        if (tags.footway === 'crossing') return 9;
+        if (highway === 'footway' || highway === 'pedestrian' || highway === 'living_street') return 10;
+        if (highway === 'path' || highway === 'steps') return 6;
+
+        const sidewalk = tags.sidewalk || tags['sidewalk:both'];
+        if (sidewalk === 'both' || sidewalk === 'yes') return 8;
+        if (sidewalk === 'left' || sidewalk === 'right' || sidewalk === 'separate') return 7;
+        if (sidewalk === 'no' || sidewalk === 'none') return 2;
+
+        // No sidewalk data: quiet streets are walkable, busy roads are not
+        if (MOTOR_ONLY_WAYS.includes(highway)) return 0;
+        if (highway === 'residential' || highway === 'service') return 5;
+        return 3;
+    }
 
-        const query = `
-            [out:json][timeout:15];
-            (
-                ${queryParts}
-            );
-            out tags;
-        `;
-
-        // Retry logic with exponential backoff
-        let response;
-        let attempts = 0;
-        const maxAttempts = 3;
-
-        while (attempts < maxAttempts) {
-            try {
-                response = await fetch(OVERPASS_API_URL, {
-                    method: 'POST',
-                    body: query
-                });
+    if (mode === 'cycling') {
+        let score: number;
+        const cycleway = tags.cycleway || tags['cycleway:both'] || tags['cycleway:right'] || tags['cycleway:left'];
+
+        if (highway === 'cycleway' || cycleway === 'track' || cycleway === 'separate') {
+            score = 10;
+        } else if (tags.bicycle === 'designated') {
+            score = 9;
+        } else if (cycleway === 'lane') {
+            score = 8;
+        } else if (cycleway === 'shared_lane' || cycleway === 'share_busway') {
+            score = 6;
+        } else if (highway === 'residential' || highway === 'living_street' || highway === 'track' || highway === 'path') {
+            score = 6;
+        } else if (MOTOR_ONLY_WAYS.includes(highway)) {
+            score = 0;
+        } else {
+            score = 3; // Mixed traffic on a busier road
+        }
 
-                if (response.ok) break;
+        if (ROUGH_SURFACES.includes(tags.surface)) score -= 3;
+        else if (BUMPY_SURFACES.includes(tags.surface)) score -= 2;
 
-                // If rate limited (429) or server error (5xx), wait and retry
-                if (response.status === 429 || response.status >= 500) {
-                    throw new Error(`API Error ${response.status}`);
-                }
+        return Math.max(0, score);
+    }
 
-                // If client error (4xx), don't retry, just break
-                break;
-            } catch (err) {
-                attempts++;
-                if (attempts === maxAttempts) throw err;
-                // Wait 1s, 2s, 4s...
-                await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, attempts - 1)));
-            }
-        }
+    return undefined;
+};
 
-        if (!response || !response.ok) {
-            console.warn("OSM API request failed after retries");
-            return 5;
-        }
+/**
+ * Fetches a lighting profile along the route based on OSM data.
+ * Every sample is matched to the nearest OSM way, so dark stretches stay visible
+ * instead of being averaged away. Returns null when OSM could not be reached.
+ */
+export const fetchLightingProfile = async (path: LatLng[], mode: TravelMode = 'driving'): Promise<LightingProfile | null> => {
+    if (!path || path.length === 0) {
+        console.warn("Empty path provided to fetchLightingProfile");
+        return null;
+    }
 
-        const data = await response.json();
-        const elements = data.elements || [];
+    // Sample points along the route, roughly one per km within sane bounds
+    const distances = cumulativeDistancesKm(path);
+    const totalKm = distances[distances.length - 1];
+    const sampleCount = Math.max(15, Math.min(40, Math.round(totalKm)));
+    const samples = sampleAlongPath(path, distances, sampleCount);
 
-        if (elements.length === 0) {
-            console.warn("No OSM highway data found for route");
-            lightingCache.set(cacheKey, 4);
-            return 4; // Slightly lower default for unknown areas
-        }
+    try {
+        // Highway data with geometry around every sample
+        const { elements } = await runOverpassQuery({
+            timeout: 15,
+            sets: [{
+                statements: [{ element: 'way', tags: [hasTag('highway')], area: around(LIGHTING_RADIUS_M, samples.map(s => s.point)) }],
+                output: 'tags geom'
+            }]
+        });
 
         // Deduplicate OSM elements by ID
-        const uniqueElements = new Map<number, any>();
-        elements.forEach((el: any) => {
-            if (el.id) uniqueElements.set(el.id, el);
+        const uniqueWays = new Map<number, OverpassWay>();
+        elements.forEach(el => {
+            if (el.type === 'way') uniqueWays.set(el.id, el);
         });
 
-        // Calculate lighting score based on explicit OSM lit tags + Road Type Heuristics
-        let totalScore = 0;
-        let count = 0;
-
-        uniqueElements.forEach((el) => {
-            const tags = el.tags || {};
-            const lit = tags.lit;
-            const highway = tags.highway;
-
-            let score = 5; // Default: unknown/no data
-
-            // 1. Explicit lighting tags (Highest Priority)
-            if (lit === 'yes') {
-                score = 10; // Well-lit
-            } else if (lit === '24/7' || lit === 'automatic' || lit === 'stay_on') {
-                score = 10; // Always lit
-            } else if (lit === 'limited' || lit === 'interval') {
-                score = 6; // Partially lit
-            } else if (lit === 'sunset-sunrise' || lit === 'dusk-dawn') {
-                score = 7; // Lit during night hours
-            } else if (lit === 'no' || lit === 'disused') {
-                score = 2; // Not lit
-            } else {
-                // 2. Heuristics based on road type (Fallback)
-                switch (highway) {
-                    case 'motorway':
-                    case 'motorway_link':
-                    case 'trunk':
-                    case 'trunk_link':
-                    case 'primary':
-                    case 'primary_link':
-                        score = 9; // Major roads usually lit
-                        break;
-                    case 'secondary':
-                    case 'secondary_link':
-                        score = 8;
-                        break;
-                    case 'tertiary':
-                    case 'tertiary_link':
-                        score = 7;
-                        break;
-                    case 'residential':
-                    case 'living_street':
-                    case 'pedestrian':
-                        score = 6; // Usually have streetlights
-                        break;
-                    case 'service':
-                    case 'track':
-                        score = 3; // Likely unlit
-                        break;
-                    default:
-                        score = 5; // Unknown
-                }
+        if (uniqueWays.size === 0) {
+            console.warn("No OSM highway data found for route");
+        }
+
+        const ways = Array.from(uniqueWays.values()).map(el => ({
+            id: el.id as number,
+            tags: el.tags || {},
+            line: (el.geometry || []).map(g => ({ lat: g.lat, lng: g.lon }))
+        }));
+
+        // Match each sample to the ways around it, nearest first
+        const reachKm = LIGHTING_RADIUS_M / 1000 * 1.2;
+        const scoredSamples = samples.map((sample): LightingSample => {
+            const nearby = ways
+                .map(way => ({ way, distance: distanceToPolylineKm(sample.point, way.line) }))
+                .filter(match => match.distance <= reachKm)
+                .sort((a, b) => a.distance - b.distance);
+
+            if (nearby.length === 0) {
+                // Slightly lower default for unknown areas
+                return { ...sample, score: 4, source: 'unknown', wayIds: [] };
             }
 
-            totalScore += score;
-            count++;
+            // The way being travelled is the nearest one usable in this mode.
+            // On foot, a mapped footway next to the road is what you actually walk on.
+            const usable = nearby
+                .filter(m => isUsableWay(m.way.tags, mode))
+                .map(m => ({
+                    ...m,
+                    distance: mode === 'walking' && PEDESTRIAN_WAYS.includes(m.way.tags.highway) ? m.distance - 0.03 : m.distance
+                }))
+                .sort((a, b) => a.distance - b.distance);
+            const travelled = (usable[0] || nearby[0]).way;
+
+            const { score, source } = scoreWayLighting(travelled.tags);
+            return {
+                ...sample,
+                score,
+                source,
+                wayIds: nearby.map(m => m.way.id),
+                highway: travelled.tags.highway,
+                infrastructureScore: scoreWayInfrastructure(travelled.tags, mode)
+            };
         });
 
-        // Calculate average and clamp to valid range
-        const avgScore = count > 0 ? Math.round(totalScore / count) : 5;
-        const finalScore = Math.max(2, Math.min(10, avgScore));
+        const profile = summarizeLighting(scoredSamples);
 
-        console.log(`Lighting score calculated: ${finalScore} (from ${count} road segments, raw OSM data only)`);
+        console.log(`Lighting profile calculated: avg ${profile.averageScore}, ${profile.unlitKm} km unlit (from ${ways.length} road segments)`);
 
-        // Cache the successful result
-        lightingCache.set(cacheKey, finalScore);
-
-        return finalScore;
+        return profile;
 
     } catch (error) {
         console.error("OSM Lighting fetch failed:", error);
-        return 5; // Safe default on error
+        return null;
     }
 };
 
+/**
+ * Derives distance-weighted summary stats from scored samples.
+ * A segment between two samples takes the mean of their scores.
+ */
+const summarizeLighting = (samples: LightingSample[]): LightingProfile => {
+    if (samples.length < 2) {
+        return {
+            samples,
+            averageScore: samples[0]?.score ?? 5,
+            unlitKm: 0,
+            infrastructureScore: samples[0]?.infrastructureScore
+        };
+    }
+
+    let weightedTotal = 0;
+    let unlitKm = 0;
+    let lowestSegment: LightingStretch | undefined;
+
+    // Contiguous runs of unlit segments, longest one becomes the worst stretch
+    const darkRuns: { startKm: number, endKm: number, scoreKm: number }[] = [];
+    let inDarkRun = false;
+
+    for (let i = 0; i < samples.length - 1; i++) {
+        const startKm = samples[i].distanceKm;
+        const endKm = samples[i + 1].distanceKm;
+        const length = endKm - startKm;
+        const score = (samples[i].score + samples[i + 1].score) / 2;
+
+        weightedTotal += score * length;
+
+        if (!lowestSegment || score < lowestSegment.averageScore) {
+            lowestSegment = { startKm, endKm, averageScore: score };
+        }
+
+        if (score < UNLIT_THRESHOLD) {
+            unlitKm += length;
+            if (inDarkRun) {
+                const run = darkRuns[darkRuns.length - 1];
+                run.endKm = endKm;
+                run.scoreKm += score * length;
+            } else {
+                darkRuns.push({ startKm, endKm, scoreKm: score * length });
+            }
+        }
+        inDarkRun = score < UNLIT_THRESHOLD;
+    }
+
+    const longestRun = darkRuns.reduce<typeof darkRuns[number] | undefined>(
+        (best, run) => (!best || run.endKm - run.startKm > best.endKm - best.startKm) ? run : best,
+        undefined
+    );
+    const worstStretch: LightingStretch | undefined = longestRun
+        ? {
+            startKm: longestRun.startKm,
+            endKm: longestRun.endKm,
+            averageScore: longestRun.endKm > longestRun.startKm
+                ? longestRun.scoreKm / (longestRun.endKm - longestRun.startKm)
+                : UNLIT_THRESHOLD
+        }
+        : lowestSegment;
+
+    const infraScores = samples
+        .map(s => s.infrastructureScore)
+        .filter((score): score is number => score !== undefined);
+    const infrastructureScore = infraScores.length > 0
+        ? Number((infraScores.reduce((sum, score) => sum + score, 0) / infraScores.length).toFixed(1))
+        : undefined;
+
+    const totalKm = samples[samples.length - 1].distanceKm - samples[0].distanceKm;
+    const average = totalKm > 0
+        ? weightedTotal / totalKm
+        : samples.reduce((sum, s) => sum + s.score, 0) / samples.length;
+
+    return {
+        samples,
+        averageScore: Number(average.toFixed(1)),
+        unlitKm: Number(unlitKm.toFixed(1)),
+        worstStretch: worstStretch && {
+            startKm: Number(worstStretch.startKm.toFixed(1)),
+            endKm: Number(worstStretch.endKm.toFixed(1)),
+            averageScore: Number(worstStretch.averageScore.toFixed(1))
+        },
+        infrastructureScore
+    };
+};
+
+/**
+ * Summary of the part of a lighting profile between two distances along the route
+ */
+export const sliceLightingProfile = (profile: LightingProfile, startKm: number, endKm: number): LightingProfile => {
+    const samples = profile.samples.filter(s => s.distanceKm >= startKm && s.distanceKm <= endKm);
+    return summarizeLighting(samples);
+};
+
+/**
+ * Picks points spread evenly by distance along a path, keeping their path index
+ */
+function sampleAlongPath(path: LatLng[], distances: number[], count: number): PathSample[] {
+    const totalKm = distances[distances.length - 1];
+    const samples: PathSample[] = [];
+    let index = 0;
+
+    for (let i = 0; i < count; i++) {
+        const target = count > 1 ? totalKm * i / (count - 1) : 0;
+        while (index < path.length - 1 && distances[index + 1] <= target) {
+            index++;
+        }
+        if (samples.length > 0 && samples[samples.length - 1].pathIndex === index) continue;
+
+        samples.push({
+            point: { lat: path[index].lat, lng: path[index].lng },
+            pathIndex: index,
+            distanceKm: distances[index]
+        });
+    }
+
+    // Always end on the final point so segments cover the whole route
+    const lastIndex = path.length - 1;
+    if (samples[samples.length - 1].pathIndex !== lastIndex) {
+        samples.push({ point: path[lastIndex], pathIndex: lastIndex, distanceKm: distances[lastIndex] });
+    }
+
+    return samples;
+}
+
 /**
  * Sample evenly distributed points along a path
  */
-function samplePoints(path: LatLng[], count: number): LatLng[] {
+export function samplePoints(path: LatLng[], count: number): LatLng[] {
     if (path.length <= count) {
         return path.map(p => ({
             lat: typeof p.lat === 'function' ? (p as any).lat() : p.lat,
@@ -216,39 +395,21 @@ export const findCitiesAlongRoute = async (path: LatLng[]): Promise<CityResult[]
         samples = samples.slice(1, samples.length - 1);
     }
 
-    // Build query for cities/towns around these points
-    let queryParts = "";
-    samples.forEach(pt => {
-        const lat = Number(pt.lat.toFixed(4));
-        const lng = Number(pt.lng.toFixed(4));
-        // Search for cities/towns within 10km (10000m)
-        queryParts += `node["place"~"city|town"](around:10000,${lat},${lng});`;
-    });
-
-    const query = `
-        [out:json][timeout:15];
-        (
-            ${queryParts}
-        );
-        out body;
-    `;
-
     try {
-        const response = await fetch(OVERPASS_API_URL, {
-            method: 'POST',
-            body: query
+        // Cities and towns within 10km of the samples
+        const { elements } = await runOverpassQuery({
+            timeout: 15,
+            sets: [{
+                statements: [{ element: 'node', tags: [tagMatches('place', 'city|town')], area: around(10000, samples) }],
+                output: 'body'
+            }]
         });
 
-        if (!response.ok) return [];
-
-        const data = await response.json();
-        const elements = data.elements || [];
-
         // Deduplicate and format
         const uniqueCities = new Map<string, CityResult>();
 
-        elements.forEach((el: any) => {
-            if (el.tags && el.tags.name) {
+        elements.forEach(el => {
+            if (el.type === 'node' && el.tags && el.tags.name) {
                 // English name preferred if available
                 const name = el.tags['name:en'] || el.tags.name;
                 uniqueCities.set(name, {
@@ -267,34 +428,3 @@ export const findCitiesAlongRoute = async (path: LatLng[]): Promise<CityResult[]
         return [];
     }
 };
-
-/**
- * Reverse geocodes coordinates to an address using OpenStreetMap (Nominatim)
- */
-export const reverseGeocodeOSM = async (lat: number, lon: number): Promise<string | null> => {
-    try {
-        const url = `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lon}&zoom=18&addressdetails=1`;
-
-        const response = await fetch(url, {
-            headers: {
-                'User-Agent': 'SmartDrive-App/1.0'
-            }
-        });
-
-        if (!response.ok) {
-            throw new Error(`Nominatim API error: ${response.status}`);
-        }
-
-        const data = await response.json();
-
-        if (data && data.display_name) {
-            return data.display_name;
-        }
-
-        return null;
-    } catch (error) {
-        console.error("Reverse geocoding failed:", error);
-        return null;
-    }
-};
-
@@ -0,0 +1,255 @@
+import { LatLng } from '../types';
+import { withCache } from './cacheService';
+import { localExtractCovers, queryLocalExtract } from './localOsmSource';
+
+// Typed Overpass API access: a small QL builder, one request queue shared by
+// every caller, and failover across mirrors. Responses go through the cache.
+
+export interface OverpassTags {
+    [key: string]: string;
+}
+
+export interface OverpassNode {
+    type: 'node';
+    id: number;
+    lat: number;
+    lon: number;
+    tags?: OverpassTags;
+}
+
+export interface OverpassWay {
+    type: 'way';
+    id: number;
+    tags?: OverpassTags;
+    nodes?: number[];
+    geometry?: { lat: number, lon: number }[]; // with "out geom"
+}
+
+export interface OverpassRelation {
+    type: 'relation';
+    id: number;
+    tags?: OverpassTags;
+    members?: { type: string, ref: number, role: string }[];
+}
+
+// Result of "out count"
+export interface OverpassCount {
+    type: 'count';
+    id: number;
+    tags: { nodes: string, ways: string, relations: string, total: string };
+}
+
+export type OverpassElement = OverpassNode | OverpassWay | OverpassRelation | OverpassCount;
+
+export interface OverpassResponse {
+    elements: OverpassElement[];
+}
+
+export type AreaFilter =
+    // Around each point separately, or along the line through them
+    | { type: 'around', radius: number, points: LatLng[], asLine?: boolean }
+    | { type: 'poly', points: LatLng[] }
+    | { type: 'bbox', south: number, west: number, north: number, east: number };
+
+export interface TagFilter {
+    key: string;
+    value?: string; // exact value
+    pattern?: string; // regular expression on the value
+}
+
+export interface OverpassStatement {
+    element: 'node' | 'way' | 'relation' | 'nwr';
+    tags?: TagFilter[];
+    area: AreaFilter;
+}
+
+export type OverpassOutput = 'body' | 'tags' | 'geom' | 'tags geom' | 'center' | 'count';
+
+// Each set is the union of its statements, printed with its own output mode
+export interface OverpassQuery {
+    timeout?: number; // seconds
+    sets: { statements: OverpassStatement[], output: OverpassOutput }[];
+}
+
+export const hasTag = (key: string): TagFilter => ({ key });
+export const tagEquals = (key: string, value: string): TagFilter => ({ key, value });
+export const tagMatches = (key: string, pattern: string): TagFilter => ({ key, pattern });
+
+export const around = (radius: number, points: LatLng[], asLine = false): AreaFilter => ({ type: 'around', radius, points, asLine });
+
+// Coordinates are rounded so equal routes produce equal queries (and cache hits)
+const coord = (p: LatLng) => `${Number(p.lat.toFixed(4))},${Number(p.lng.toFixed(4))}`;
+
+const renderTag = (tag: TagFilter): string => {
+    if (tag.value !== undefined) return `["${tag.key}"="${tag.value}"]`;
+    if (tag.pattern !== undefined) return `["${tag.key}"~"${tag.pattern}"]`;
+    return `["${tag.key}"]`;
+};
+
+// One or more area clauses; "around" without asLine needs one per point
+const renderAreas = (area: AreaFilter): string[] => {
+    switch (area.type) {
+        case 'around':
+            return area.asLine
+                ? [`(around:${area.radius},${area.points.map(coord).join(',')})`]
+                : area.points.map(p => `(around:${area.radius},${coord(p)})`);
+        case 'poly':
+            return [`(poly:"${area.points.map(p => `${Number(p.lat.toFixed(4))} ${Number(p.lng.toFixed(4))}`).join(' ')}")`];
+        case 'bbox':
+            return [`(${area.south},${area.west},${area.north},${area.east})`];
+    }
+};
+
+// Server-side limit when a query doesn't set one
+const DEFAULT_QUERY_TIMEOUT_S = 25;
+
+export const buildOverpassQuery = (query: OverpassQuery): string => {
+    const header = `[out:json][timeout:${query.timeout ?? DEFAULT_QUERY_TIMEOUT_S}];`;
+    const sets = query.sets.map(set => {
+        const statements = set.statements.flatMap(statement => {
+            const tags = (statement.tags || []).map(renderTag).join('');
+            return renderAreas(statement.area).map(area => `${statement.element}${tags}${area};`);
+        });
+        return `(\n${statements.join('\n')}\n);\nout ${set.output};`;
+    });
+    return [header, ...sets].join('\n');
+};
+
+const DEFAULT_MIRRORS = [
+    "https://overpass-api.de/api/interpreter",
+    "https://overpass.kumi.systems/api/interpreter",
+    "https://maps.mail.ru/osm/tools/overpass/api/interpreter"
+];
+
+// Requests in flight across the whole app; the public instances allow very few per client
+const MAX_CONCURRENT_REQUESTS = 2;
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 1000;
+// Beyond the query's own server-side timeout, a mirror that still hasn't answered counts as failed
+const RESPONSE_GRACE_MS = 10000;
+
+/**
+ * Mirrors from VITE_OVERPASS_URLS (comma-separated, in order of preference)
+ */
+export const getOverpassMirrors = (): string[] => {
+    const configured = (import.meta.env.VITE_OVERPASS_URLS || '')
+        .split(',')
+        .map(url => url.trim())
+        .filter(Boolean);
+    return configured.length > 0 ? configured : DEFAULT_MIRRORS;
+};
+
+let activeRequests = 0;
+const waitingRequests: (() => void)[] = [];
+// Per mirror, when it may be asked again after a 429 or failure
+const mirrorBlockedUntil = new Map<string, number>();
+
+const acquireSlot = (): Promise<void> => {
+    if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+        activeRequests++;
+        return Promise.resolve();
+    }
+    return new Promise(resolve => waitingRequests.push(resolve));
+};
+
+// The slot passes straight to the next waiting request
+const releaseSlot = () => {
+    const next = waitingRequests.shift();
+    if (next) next();
+    else activeRequests--;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Retry-After in ms, as seconds or an HTTP date
+ */
+const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * The mirror that is free soonest, preferring earlier ones in the list
+ */
+const pickMirror = (mirrors: string[]): { url: string, waitMs: number } => {
+    const now = Date.now();
+    let best = { url: mirrors[0], waitMs: Infinity };
+    mirrors.forEach(url => {
+        const waitMs = Math.max(0, (mirrorBlockedUntil.get(url) ?? 0) - now);
+        if (waitMs < best.waitMs) best = { url, waitMs };
+    });
+    return best;
+};
+
+const postWithFailover = async (ql: string, timeoutMs: number): Promise<OverpassResponse> => {
+    const mirrors = getOverpassMirrors();
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        const { url, waitMs } = pickMirror(mirrors);
+        if (waitMs > 0) await sleep(waitMs);
+
+        const backoff = BASE_BACKOFF_MS * Math.pow(2, attempt);
+        // A hanging mirror would otherwise hold a queue slot forever
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        let response: Response;
+        let data: any;
+        try {
+            response = await fetch(url, { method: 'POST', body: ql, signal: controller.signal });
+            if (response.ok) data = await response.json();
+        } catch (error) {
+            // Network failure or timeout: rest this mirror and try another
+            mirrorBlockedUntil.set(url, Date.now() + backoff);
+            lastError = controller.signal.aborted ? new Error(`Overpass request to ${url} timed out`) : error;
+            continue;
+        } finally {
+            clearTimeout(timer);
+        }
+
+        if (response.ok) {
+            return { elements: data.elements || [] };
+        }
+
+        // Rate limited or overloaded: same, honouring Retry-After when given
+        if (response.status === 429 || response.status >= 500) {
+            const retryAfter = parseRetryAfter(response.headers.get('Retry-After')) ?? backoff;
+            mirrorBlockedUntil.set(url, Date.now() + retryAfter);
+            lastError = new Error(`Overpass API error ${response.status} from ${url}`);
+            continue;
+        }
+
+        // Anything else is a problem with the query itself
+        throw new Error(`Overpass API error ${response.status}`);
+    }
+
+    throw lastError instanceof Error ? lastError : new Error("Overpass request failed");
+};
+
+/**
+ * Runs a query through the cache and the shared request queue.
+ * Structured queries within a loaded local extract are answered from it instead.
+ */
+export const runOverpassQuery = async (query: OverpassQuery | string): Promise<OverpassResponse> => {
+    if (typeof query !== 'string' && localExtractCovers(query)) {
+        return queryLocalExtract(query);
+    }
+
+    const ql = typeof query === 'string' ? query : buildOverpassQuery(query);
+    const timeoutS = typeof query === 'string'
+        ? Number(query.match(/\[timeout:(\d+)\]/)?.[1] ?? DEFAULT_QUERY_TIMEOUT_S)
+        : query.timeout ?? DEFAULT_QUERY_TIMEOUT_S;
+
+    return withCache('overpass', ql, async () => {
+        await acquireSlot();
+        try {
+            return await postWithFailover(ql, timeoutS * 1000 + RESPONSE_GRACE_MS);
+        } finally {
+            releaseSlot();
+        }
+    });
+};
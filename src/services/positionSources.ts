@@ -0,0 +1,80 @@
+import { LatLng } from '../types';
+import { ImportedTrack } from './importService';
+
+export interface PositionFix {
+    position: LatLng;
+    timestamp: number; // ms; the track's own clock when replaying
+    accuracy?: number; // in meters
+    speed?: number; // in m/s
+}
+
+export interface PositionSource {
+    name: string;
+    // Starts delivering fixes; the returned function stops them
+    watch: (onFix: (fix: PositionFix) => void, onError: (message: string) => void) => () => void;
+}
+
+// Spacing assumed between track points without timestamps
+const UNTIMED_POINT_INTERVAL_MS = 1000;
+
+/**
+ * The device's position via the Geolocation API
+ */
+export const geolocationSource: PositionSource = {
+    name: 'Live GPS',
+    watch: (onFix, onError) => {
+        if (!('geolocation' in navigator)) {
+            onError("Geolocation is not supported by your browser");
+            return () => undefined;
+        }
+
+        const watchId = navigator.geolocation.watchPosition(
+            position => onFix({
+                position: { lat: position.coords.latitude, lng: position.coords.longitude },
+                timestamp: position.timestamp,
+                accuracy: position.coords.accuracy,
+                speed: position.coords.speed ?? undefined
+            }),
+            error => {
+                switch (error.code) {
+                    case error.PERMISSION_DENIED:
+                        onError("Location permission was denied. Please enable location services for this site.");
+                        break;
+                    case error.POSITION_UNAVAILABLE:
+                        onError("Location information is unavailable.");
+                        break;
+                    // Timeouts between fixes are routine while moving; keep watching
+                }
+            },
+            { enableHighAccuracy: true, timeout: 10000, maximumAge: 1000 }
+        );
+        return () => navigator.geolocation.clearWatch(watchId);
+    }
+};
+
+/**
+ * Replays a recorded track as if it were a live feed, for trying navigation
+ * at a desk. Recorded timestamps set the pace, sped up by the given factor.
+ */
+export const createReplaySource = (track: ImportedTrack, speedup: number = 1): PositionSource => ({
+    name: `Replay of ${track.name}`,
+    watch: (onFix) => {
+        const start = track.times.find(t => t !== undefined) ?? Date.now();
+        const timeAt = (i: number) => track.times[i] ?? start + i * UNTIMED_POINT_INTERVAL_MS;
+
+        let index = 0;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const emit = () => {
+            onFix({ position: track.points[index], timestamp: timeAt(index) });
+            index++;
+            if (index < track.points.length) {
+                const gap = Math.max(0, timeAt(index) - timeAt(index - 1));
+                timer = setTimeout(emit, gap / speedup);
+            }
+        };
+        timer = setTimeout(emit, 0);
+
+        return () => clearTimeout(timer);
+    }
+});
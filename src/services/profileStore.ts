@@ -0,0 +1,57 @@
+import { DrivingProfile, ProfileWeights } from '../types';
+import { CRITERIA } from './routeService';
+
+const STORAGE_KEY = 'smartdrive.customProfiles';
+
+const isValidProfile = (value: any): value is DrivingProfile => {
+    return value
+        && typeof value.id === 'string' && value.id.startsWith('custom-')
+        && typeof value.name === 'string'
+        && value.weights
+        && Object.values(value.weights).every(w => typeof w === 'number');
+};
+
+// Criteria added after a profile was saved start at weight 0
+const withAllCriteria = (weights: Partial<ProfileWeights>): ProfileWeights => {
+    return Object.fromEntries(CRITERIA.map(c => [c.key, weights[c.key] ?? 0])) as ProfileWeights;
+};
+
+/**
+ * Loads user-defined profiles from localStorage, skipping anything malformed
+ */
+export const loadCustomProfiles = (): DrivingProfile[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return [];
+
+        const parsed = JSON.parse(raw);
+        if (!Array.isArray(parsed)) return [];
+
+        return parsed
+            .filter(isValidProfile)
+            .map(p => ({ ...p, weights: withAllCriteria(p.weights), isCustom: true }));
+    } catch (error) {
+        console.warn("Failed to load custom profiles", error);
+        return [];
+    }
+};
+
+export const saveCustomProfiles = (profiles: DrivingProfile[]): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles.filter(p => p.isCustom)));
+    } catch (error) {
+        console.warn("Failed to save custom profiles", error);
+    }
+};
+
+/**
+ * Starts a new custom profile, optionally from existing weights
+ */
+export const createCustomProfile = (name: string, weights: ProfileWeights, description: string = 'Custom profile'): DrivingProfile => ({
+    id: `custom-${Date.now().toString(36)}`,
+    name,
+    description,
+    icon: 'SlidersHorizontal',
+    weights: { ...weights },
+    isCustom: true
+});
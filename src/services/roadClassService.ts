@@ -0,0 +1,115 @@
+import { LightingProfile, RoadClass, RoadComposition, RoadType, RouteLeg, RouteStep } from '../types';
+
+export const ROAD_CLASSES: RoadClass[] = ['motorway', 'primary', 'residential', 'unclassified'];
+
+export const ROAD_CLASS_LABELS: Record<RoadClass, string> = {
+    motorway: 'Motorway',
+    primary: 'Main road',
+    residential: 'Local road',
+    unclassified: 'Minor road'
+};
+
+// A class has to cover this share of the route for it to name the whole route
+const DOMINANT_SHARE = 55;
+
+/**
+ * Groups an OSM highway tag into one of the coarse road classes
+ */
+export const classifyHighway = (highway?: string): RoadClass => {
+    switch (highway) {
+        case 'motorway':
+        case 'motorway_link':
+        case 'trunk':
+        case 'trunk_link':
+            return 'motorway';
+        case 'primary':
+        case 'primary_link':
+        case 'secondary':
+        case 'secondary_link':
+            return 'primary';
+        case 'tertiary':
+        case 'tertiary_link':
+        case 'residential':
+        case 'living_street':
+        case 'pedestrian':
+            return 'residential';
+        default:
+            return 'unclassified';
+    }
+};
+
+const toPercentages = (totals: Record<RoadClass, number>): RoadComposition | null => {
+    const sum = ROAD_CLASSES.reduce((acc, c) => acc + totals[c], 0);
+    if (sum <= 0) return null;
+
+    const composition = {} as RoadComposition;
+    ROAD_CLASSES.forEach(c => {
+        composition[c] = Math.round(totals[c] / sum * 100);
+    });
+    return composition;
+};
+
+/**
+ * Road composition by distance, from the OSM ways matched by the lighting profile.
+ * Each segment is split between the classes of its two end samples.
+ */
+export const compositionFromLighting = (profile: LightingProfile): RoadComposition | null => {
+    const totals: Record<RoadClass, number> = { motorway: 0, primary: 0, residential: 0, unclassified: 0 };
+    const { samples } = profile;
+
+    for (let i = 0; i < samples.length - 1; i++) {
+        const half = (samples[i + 1].distanceKm - samples[i].distanceKm) / 2;
+        [samples[i], samples[i + 1]].forEach(s => {
+            // Samples that matched no way tell us nothing about the road
+            if (s.highway) totals[classifyHighway(s.highway)] += half;
+        });
+    }
+
+    return toPercentages(totals);
+};
+
+const MOTORWAY_PATTERN = /\b(motorway|expressway|freeway|interstate|autobahn|autoroute|highway|hwy)\b|\b(I|M|A|E|NH|US)-?\s?\d+\b/i;
+const PRIMARY_PATTERN = /\b(state highway|SH-?\s?\d+|route|boulevard|blvd|parkway|bypass)\b/i;
+const RESIDENTIAL_PATTERN = /\b(street|st|lane|ln|avenue|ave|close|court|place|crescent|terrace)\b/i;
+
+/**
+ * Guesses a step's road class from its instruction text and manoeuvre
+ */
+export const classifyStep = (step: RouteStep): RoadClass => {
+    if (step.maneuver?.startsWith('ramp') || MOTORWAY_PATTERN.test(step.instruction)) return 'motorway';
+    if (PRIMARY_PATTERN.test(step.instruction)) return 'primary';
+    if (RESIDENTIAL_PATTERN.test(step.instruction)) return 'residential';
+    return 'unclassified';
+};
+
+/**
+ * Rough road composition from step instructions, for when no OSM data is available
+ */
+export const compositionFromSteps = (legs: RouteLeg[]): RoadComposition | null => {
+    const totals: Record<RoadClass, number> = { motorway: 0, primary: 0, residential: 0, unclassified: 0 };
+
+    legs.forEach(leg => leg.steps.forEach(step => {
+        totals[classifyStep(step)] += step.distance;
+    }));
+
+    return toPercentages(totals);
+};
+
+/**
+ * Names a route after the road class it mostly runs on, or "Mixed" when none dominates
+ */
+export const deriveRoadType = (composition: RoadComposition): RoadType => {
+    const dominant = ROAD_CLASSES.reduce((best, c) => composition[c] > composition[best] ? c : best, ROAD_CLASSES[0]);
+    if (composition[dominant] < DOMINANT_SHARE) return 'Mixed';
+
+    switch (dominant) {
+        case 'motorway':
+            return 'Highway';
+        case 'primary':
+            return 'Arterial';
+        case 'residential':
+            return 'City';
+        default:
+            return 'Backroads';
+    }
+};
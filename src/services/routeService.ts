@@ -1,6 +1,11 @@
-import { Route, DrivingProfile } from '../types';
-import { fetchLightingScore } from './osmService';
-import { fetchRouteWeather } from './weatherService';
+import { Route, DrivingProfile, Criterion, CriterionBreakdown, LegSummary, LightingProfile, ProfileWeights, RouteGeometry, RouteWeather, TravelMode } from '../types';
+import { fetchLightingProfile, sliceLightingProfile } from './osmService';
+import { computeWeatherRisk, fetchRouteWeather } from './weatherService';
+import { fetchActivityScore } from './activityService';
+import { compositionFromLighting, compositionFromSteps, deriveRoadType } from './roadClassService';
+import { RoutingProvider, getRoutingProvider } from './routingProviders';
+import { computeRouteDaylight, toDepartureDate } from './daylightService';
+import { computeHillinessScore, fetchElevationProfile } from './elevationService';
 
 export const PROFILES: DrivingProfile[] = [
     {
@@ -8,104 +13,223 @@ export const PROFILES: DrivingProfile[] = [
         name: 'Speed_Demon',
         description: 'Prioritizes shortest ETA above all else.',
         icon: 'Zap',
-        weights: { eta: 10, activity: 0, lighting: 1 }
+        weights: { eta: 10, activity: 0, lighting: 1, infrastructure: 0, weather: 1, hilliness: 0 },
+        modeWeights: {
+            walking: { infrastructure: 1 },
+            // Climbs cost a cyclist far more time than the router's estimate shows
+            cycling: { infrastructure: 2, hilliness: 4 }
+        }
     },
     {
         id: 'safe',
         name: 'Safety_First',
         description: 'Prefers well-lit routes with populated areas.',
         icon: 'Shield',
-        weights: { eta: 2, activity: 5, lighting: 10 }
+        weights: { eta: 2, activity: 5, lighting: 10, infrastructure: 0, weather: 8, hilliness: 2 },
+        modeWeights: {
+            // On foot, being seen and having a footway matter more than a few minutes
+            walking: { eta: 1, activity: 8, lighting: 10, infrastructure: 8, hilliness: 2 },
+            // On a bike, separated infrastructure is the main safety factor, and gusts, ice and steep descents hit harder
+            cycling: { eta: 2, activity: 3, lighting: 8, infrastructure: 10, weather: 9, hilliness: 6 }
+        }
     },
     {
         id: 'scenic',
         name: 'Explorer',
         description: 'Loves high activity and scenic routes.',
         icon: 'Compass',
-        weights: { eta: 1, activity: 10, lighting: 5 }
+        weights: { eta: 1, activity: 10, lighting: 5, infrastructure: 0, weather: 3, hilliness: 0 },
+        modeWeights: {
+            walking: { infrastructure: 5 },
+            cycling: { infrastructure: 6 }
+        }
+    },
+    {
+        id: 'balanced',
+        name: 'Balanced',
+        description: 'Weighs time, lighting and activity evenly.',
+        icon: 'Scale',
+        weights: { eta: 5, activity: 5, lighting: 5, infrastructure: 0, weather: 4, hilliness: 1 },
+        modeWeights: {
+            walking: { infrastructure: 5, hilliness: 3 },
+            cycling: { infrastructure: 5, hilliness: 5 }
+        }
     }
 ];
 
-export const fetchRoutes = async (sourceCoords: { lat: number, lon: number }, destCoords: { lat: number, lon: number }, travelTime?: string, travelDate?: string): Promise<Route[]> => {
-    if (!window.google || !window.google.maps) {
-        throw new Error("Google Maps API not loaded");
+export const CRITERIA: { key: Criterion, label: string }[] = [
+    { key: 'eta', label: 'Travel time' },
+    { key: 'activity', label: 'Activity' },
+    { key: 'lighting', label: 'Lighting' },
+    { key: 'infrastructure', label: 'Footways / cycleways' },
+    { key: 'weather', label: 'Weather risk' },
+    { key: 'hilliness', label: 'Hilliness' }
+];
+
+/**
+ * Weights of a profile for a travel mode, with the mode overrides applied
+ */
+export const getProfileWeights = (profile: DrivingProfile, mode: TravelMode = 'driving'): ProfileWeights => {
+    return { ...profile.weights, ...profile.modeWeights?.[mode] };
+};
+
+export interface FetchRoutesOptions {
+    mode?: TravelMode;
+    optimizeStops?: boolean;
+    provider?: RoutingProvider;
+}
+
+/**
+ * Per-leg ETA, distance, lighting and arrival weather.
+ * Provider leg distances are mapped proportionally onto the lighting profile's km scale.
+ */
+const summarizeLegs = (geometry: RouteGeometry, lighting?: LightingProfile, weather?: RouteWeather): LegSummary[] => {
+    const totalMeters = geometry.legs.reduce((sum, leg) => sum + leg.distance, 0);
+    const profileKm = lighting?.samples[lighting.samples.length - 1]?.distanceKm || 0;
+    let startMeters = 0;
+
+    return geometry.legs.map((leg, index) => {
+        const endMeters = startMeters + leg.distance;
+        const legLighting = lighting && totalMeters > 0
+            ? sliceLightingProfile(lighting, startMeters / totalMeters * profileKm, endMeters / totalMeters * profileKm)
+            : undefined;
+        startMeters = endMeters;
+
+        const isLast = index === geometry.legs.length - 1;
+
+        return {
+            from: leg.startAddress,
+            to: leg.endAddress,
+            eta: Math.round(leg.duration / 60),
+            distance: Number((leg.distance / 1000).toFixed(1)),
+            lightingScore: legLighting && legLighting.samples.length > 0 ? Math.round(legLighting.averageScore) : undefined,
+            unlitKm: legLighting?.unlitKm,
+            weather: isLast ? weather?.destination : weather?.stops?.[index]
+        };
+    });
+};
+
+/**
+ * Scores a route geometry: lighting, activity and weather along it for the travel time,
+ * and the climbs along it.
+ * Shared by provider routes and imported tracks.
+ */
+export const scoreGeometry = async (
+    geometry: RouteGeometry,
+    index: number,
+    mode: TravelMode,
+    travelAt?: Date
+): Promise<Route> => {
+    const firstLeg = geometry.legs[0];
+    const lastLeg = geometry.legs[geometry.legs.length - 1];
+    const totalSeconds = geometry.legs.reduce((sum, leg) => sum + leg.duration, 0);
+    const totalMeters = geometry.legs.reduce((sum, leg) => sum + leg.distance, 0);
+    const durationMins = Math.round(totalSeconds / 60);
+    const distanceKm = Number((totalMeters / 1000).toFixed(1));
+
+    let activityScore = 5;
+    let activity = undefined;
+    let lightingScore = 5;
+    let lighting = undefined;
+    let weatherData = undefined;
+    let elevation = undefined;
+
+    if (geometry.path.length > 0) {
+        // Climbs and grades come from a separate API; fetch them alongside everything else
+        const elevationPromise = fetchElevationProfile(geometry.path);
+
+        // Fetch the lighting profile along the route
+        lighting = await fetchLightingProfile(geometry.path, mode) ?? undefined;
+        if (lighting) {
+            lightingScore = Math.max(2, Math.min(10, Math.round(lighting.averageScore)));
+        }
+
+        // Fetch POI density along the route, aware of opening hours at travel time
+        const activityResult = await fetchActivityScore(geometry.path, distanceKm, travelAt);
+        if (activityResult) {
+            activityScore = activityResult.score;
+            activity = activityResult.stats;
+        }
+
+        // Fetch weather at the time each point is reached, including intermediate stops
+        try {
+            weatherData = await fetchRouteWeather(geometry, travelAt);
+        } catch (e) {
+            console.warn("Weather fetch failed", e);
+        }
+
+        elevation = await elevationPromise ?? undefined;
+    }
+
+    // Road type from the OSM roads actually driven, step instructions as a fallback
+    const roadComposition = (lighting && compositionFromLighting(lighting)) || compositionFromSteps(geometry.legs) || undefined;
+    const roadType: Route['roadType'] = roadComposition ? deriveRoadType(roadComposition) : 'Mixed';
+
+    // STABLE ID: Based on source/destination names and route summary if available
+    // This prevents UI refreshes from resetting the selection state unnecessarily
+    const stableId = `route-${geometry.provider}-${mode}-${firstLeg?.startAddress.slice(0, 3)}-${lastLeg?.endAddress.slice(0, 3)}-${geometry.legs.length}-${index}`;
+
+    return {
+        id: stableId,
+        mode,
+        source: firstLeg?.startAddress || 'Start',
+        destination: lastLeg?.endAddress || 'End',
+        eta: durationMins,
+        distance: distanceKm,
+        activityScore,
+        activity,
+        lightingScore: lightingScore,
+        lighting,
+        infrastructureScore: lighting?.infrastructureScore,
+        weather: weatherData,
+        weatherRisk: weatherData && computeWeatherRisk(weatherData),
+        elevation,
+        hillinessScore: elevation && computeHillinessScore(elevation),
+        legs: summarizeLegs(geometry, lighting, weatherData),
+        roadType: roadType,
+        roadComposition,
+        description: geometry.summary || firstLeg?.startAddress || 'Route',
+        geometry
+    };
+};
+
+export const fetchRoutes = async (
+    stops: { lat: number, lon: number }[],
+    travelTime?: string,
+    travelDate?: string,
+    options: FetchRoutesOptions = {}
+): Promise<Route[]> => {
+    const provider = options.provider || getRoutingProvider();
+    const mode = options.mode || 'driving';
+    if (!provider.isAvailable()) {
+        throw new Error(`${provider.name} is not available`);
+    }
+    if (stops.length < 2) {
+        throw new Error("At least a start and a destination are required");
     }
 
-    const directionsService = new google.maps.DirectionsService();
+    const points = stops.map(s => ({ lat: s.lat, lng: s.lon }));
+    const origin = points[0];
+    const destination = points[points.length - 1];
 
     try {
-        const response = await directionsService.route({
-            origin: { lat: sourceCoords.lat, lng: sourceCoords.lon },
-            destination: { lat: destCoords.lat, lng: destCoords.lon },
-            travelMode: google.maps.TravelMode.DRIVING,
-            provideRouteAlternatives: true
+        const travelAt = travelDate && travelTime ? toDepartureDate(travelDate, travelTime) : undefined;
+
+        const geometries = await provider.route({
+            origin,
+            destination,
+            waypoints: points.slice(1, -1),
+            optimizeWaypoints: Boolean(options.optimizeStops),
+            alternatives: true,
+            mode,
+            departureTime: travelAt
         });
 
-        if (!response.routes || response.routes.length === 0) {
+        if (geometries.length === 0) {
             return [];
         }
 
-        const processedRoutes = await Promise.all(response.routes.map(async (gRoute, index) => {
-            const leg = gRoute.legs && gRoute.legs[0];
-            const durationMins = leg?.duration?.value ? Math.round(leg.duration.value / 60) : 0;
-            const distanceKm = leg?.distance?.value ? Number((leg.distance.value / 1000).toFixed(1)) : 0;
-
-            let roadType: Route['roadType'];
-            if (index === 0) {
-                roadType = 'Highway';
-            } else if (durationMins > (response.routes[0].legs?.[0]?.duration?.value || 0) / 60 * 1.2) {
-                roadType = 'Scenic';
-            } else {
-                roadType = 'Backroads';
-            }
-
-            let activity = 5;
-            if (roadType === 'Highway') activity = 4;
-            if (roadType === 'Scenic') activity = 8;
-            if (roadType === 'Backroads') activity = 6;
-
-            let lightingScore = 5;
-            let weatherData = undefined;
-
-            if (gRoute.overview_path) {
-                // Fetch basic lighting score
-                lightingScore = await fetchLightingScore(gRoute.overview_path as any);
-
-                // Fetch weather data
-                try {
-                    const pathForWeather = gRoute.overview_path.map(p => ({ lat: p.lat(), lng: p.lng() }));
-                    weatherData = await fetchRouteWeather(
-                        { lat: sourceCoords.lat, lng: sourceCoords.lon },
-                        { lat: destCoords.lat, lng: destCoords.lon },
-                        pathForWeather,
-                        travelDate,
-                        travelTime
-                    );
-                } catch (e) {
-                    console.warn("Weather fetch failed", e);
-                }
-            }
-
-            // STABLE ID: Based on source/destination names and route summary if available
-            // This prevents UI refreshes from resetting the selection state unnecessarily
-            const stableId = `route-${leg?.start_address.slice(0, 3)}-${leg?.end_address.slice(0, 3)}-${index}`;
-
-            return {
-                id: stableId,
-                source: leg?.start_address || 'Start',
-                destination: leg?.end_address || 'End',
-                eta: durationMins,
-                distance: distanceKm,
-                activityScore: activity,
-                lightingScore: lightingScore,
-                weather: weatherData,
-                roadType: roadType,
-                description: gRoute.summary || leg?.start_address || 'Route',
-                googleRoute: gRoute
-            };
-        }));
-
-        return processedRoutes;
+        return await Promise.all(geometries.map((geometry, index) => scoreGeometry(geometry, index, mode, travelAt)));
 
     } catch (error) {
         console.error("Direction/OSM Fetch failed", error);
@@ -113,57 +237,188 @@ export const fetchRoutes = async (sourceCoords: { lat: number, lon: number }, de
     }
 };
 
-export const rankRoutes = (routes: Route[], profile: DrivingProfile, travelTime: string = "20:00"): Route[] => {
-    const isDay = isDaytime(travelTime);
+/**
+ * Each criterion mapped onto 0-1, higher is better.
+ * ETA is relative to the fastest route in the set; scores use their absolute 0-10 scale.
+ */
+const normalizeCriteria = (route: Route, fastestEta: number): ProfileWeights => ({
+    eta: route.eta > 0 ? Math.min(1, fastestEta / route.eta) : 1,
+    activity: route.activityScore / 10,
+    lighting: route.lightingScore / 10,
+    // Neutral when the mode has no infrastructure score (driving)
+    infrastructure: route.infrastructureScore !== undefined ? route.infrastructureScore / 10 : 0.5,
+    // Risk is inverted; no forecast counts as no known hazard
+    weather: 1 - (route.weatherRisk?.score ?? 0) / 10,
+    // Inverted like weather: flatter is better; neutral without elevation data
+    hilliness: route.hillinessScore !== undefined ? 1 - route.hillinessScore / 10 : 0.5
+});
 
-    // Adjust weights based on time of day
-    const effectiveWeights = { ...profile.weights };
-    if (isDay) {
-        effectiveWeights.lighting = 0; // Ignore lighting during the day
-    }
+/**
+ * Weighted average of the normalised criteria, 0-100
+ */
+const calculateScore = (normalized: ProfileWeights, weights: ProfileWeights, exclude?: Criterion): number => {
+    const included = CRITERIA.filter(c => c.key !== exclude);
+    const totalWeight = included.reduce((sum, c) => sum + weights[c.key], 0);
+    if (totalWeight <= 0) return 0;
 
-    return [...routes].sort((a, b) => {
-        if (profile.id === 'fast') return a.eta - b.eta;
-        if (profile.id === 'scenic') return b.eta - a.eta;
-        if (profile.id === 'safe') {
-            // Day: Activity only. Night: Activity + Lighting
-            const safetyA = a.activityScore * effectiveWeights.activity + a.lightingScore * effectiveWeights.lighting;
-            const safetyB = b.activityScore * effectiveWeights.activity + b.lightingScore * effectiveWeights.lighting;
-
-            // If safety is tied, prefer shorter ETA
-            if (safetyB === safetyA) return a.eta - b.eta;
-            return safetyB - safetyA;
-        }
-        const scoreA = calculateScore(a, effectiveWeights);
-        const scoreB = calculateScore(b, effectiveWeights);
-        return scoreB - scoreA;
+    const weighted = included.reduce((sum, c) => sum + normalized[c.key] * weights[c.key], 0);
+    return weighted / totalWeight * 100;
+};
+
+/**
+ * Profile weights for a route, adjusted for its travel mode and how much of it is driven in the dark
+ */
+const getEffectiveWeights = (route: Route, profile: DrivingProfile): ProfileWeights => {
+    const weights = getProfileWeights(profile, route.mode);
+    // Lighting only matters for the part of the trip after dusk
+    const darkness = route.daylight?.darknessFraction ?? 1;
+    weights.lighting = Number((weights.lighting * darkness).toFixed(1));
+    return weights;
+};
+
+export interface RankingOptions {
+    travelTime?: string;
+    travelDate?: string;
+    // ETA that counts as full marks, e.g. the fastest over several departures.
+    // Defaults to the fastest route in the set.
+    referenceEta?: number;
+}
+
+interface ScoredRoute {
+    route: Route;
+    normalized: ProfileWeights;
+    weights: ProfileWeights;
+}
+
+/**
+ * Orders routes by score (best first), with ETA as the tie-breaker
+ */
+const orderBy = (entries: ScoredRoute[], score: (entry: ScoredRoute) => number): ScoredRoute[] => {
+    return [...entries].sort((a, b) => {
+        const diff = score(b) - score(a);
+        if (Math.abs(diff) < 1e-9) return a.route.eta - b.route.eta;
+        return diff;
     });
 };
 
-const isDaytime = (time: string): boolean => {
-    if (!time) return false;
-    const hour = parseInt(time.split(':')[0], 10);
-    return hour >= 6 && hour < 19; // 6 AM to 7 PM
+const rawCriterionValue = (route: Route, criterion: Criterion): number => {
+    switch (criterion) {
+        case 'eta':
+            return route.eta;
+        case 'activity':
+            return route.activityScore;
+        case 'lighting':
+            return route.lightingScore;
+        case 'infrastructure':
+            return route.infrastructureScore ?? 0;
+        case 'weather':
+            return route.weatherRisk?.score ?? 0;
+        case 'hilliness':
+            return route.hillinessScore ?? 0;
+    }
 };
 
-const calculateScore = (route: Route, weights: { eta: number, activity: number, lighting: number }): number => {
-    const etaScore = (200 - route.eta) * (weights.eta || 1);
-    const activityScore = route.activityScore * 10 * (weights.activity || 1);
-    // Lighting score logic is now controlled by the weights passed in
-    const lightingScore = route.lightingScore * 10 * (weights.lighting || 1);
-    return etaScore + activityScore + lightingScore;
+/**
+ * Sorts routes best first and attaches a ranking breakdown to each one:
+ * every criterion's normalised value, effective weight, share of the total
+ * and how many places it moved the route compared to ranking without it.
+ */
+export const rankRoutes = (routes: Route[], profile: DrivingProfile, options: RankingOptions = {}): Route[] => {
+    const fastestEta = options.referenceEta ?? Math.min(...routes.map(r => r.eta).filter(eta => eta > 0));
+    const departure = toDepartureDate(
+        options.travelDate || new Date().toISOString().split('T')[0],
+        options.travelTime || "20:00"
+    );
+
+    const entries: ScoredRoute[] = routes.map(route => {
+        const withDaylight = {
+            ...route,
+            daylight: route.geometry ? computeRouteDaylight(route.geometry, departure) : undefined
+        };
+        return {
+            route: withDaylight,
+            normalized: normalizeCriteria(withDaylight, fastestEta),
+            weights: getEffectiveWeights(withDaylight, profile)
+        };
+    });
+
+    const ranked = orderBy(entries, e => calculateScore(e.normalized, e.weights));
+
+    // Rank of every route with each criterion left out, for the rank deltas
+    const ranksWithout = new Map<Criterion, Map<Route, number>>();
+    CRITERIA.forEach(c => {
+        const order = orderBy(entries, e => calculateScore(e.normalized, e.weights, c.key));
+        ranksWithout.set(c.key, new Map(order.map((e, i) => [e.route, i + 1])));
+    });
+
+    return ranked.map((entry, index) => {
+        const { route, normalized, weights } = entry;
+        const rank = index + 1;
+        const totalWeight = CRITERIA.reduce((sum, c) => sum + weights[c.key], 0);
+
+        const criteria: CriterionBreakdown[] = CRITERIA.map(c => ({
+            criterion: c.key,
+            label: c.label,
+            value: rawCriterionValue(route, c.key),
+            normalized: Number(normalized[c.key].toFixed(3)),
+            weight: weights[c.key],
+            contribution: totalWeight > 0 ? Number((normalized[c.key] * weights[c.key] / totalWeight * 100).toFixed(1)) : 0,
+            rankDelta: (ranksWithout.get(c.key)!.get(route) ?? rank) - rank
+        }));
+
+        return {
+            ...route,
+            ranking: {
+                rank,
+                score: Number(calculateScore(normalized, weights).toFixed(1)),
+                criteria
+            }
+        };
+    });
 };
 
-export const getRecommendationReason = (route: Route, profile: DrivingProfile, travelTime: string = "20:00"): string => {
-    if (profile.id === 'fast') return `Shortest route: ${route.eta} mins.`;
-    if (profile.id === 'scenic') return `Longest scenic drive: ${route.eta} mins.`;
-    if (profile.id === 'safe') {
-        const isDay = isDaytime(travelTime);
-        if (isDay) {
-            return `High activity score (Daytime safety).`;
-        }
-        const totalSafety = route.activityScore + route.lightingScore;
-        return `High safety score (${totalSafety}/20).`;
+const describeCriterion = (key: Criterion, route: Route): string => {
+    switch (key) {
+        case 'eta':
+            return `${route.eta} mins`;
+        case 'activity':
+            return `activity ${route.activityScore}/10`;
+        case 'lighting':
+            return `lighting ${route.lightingScore}/10`;
+        case 'infrastructure':
+            return `${route.mode === 'cycling' ? 'cycle infrastructure' : 'footways'} ${route.infrastructureScore}/10`;
+        case 'weather':
+            return route.weatherRisk && route.weatherRisk.score > 0
+                ? `weather risk ${route.weatherRisk.score}/10`
+                : 'no weather hazards';
+        case 'hilliness':
+            return route.elevation
+                ? `${route.elevation.ascent} m of climbing, max grade ${route.elevation.maxGrade}%`
+                : `hilliness ${route.hillinessScore}/10`;
     }
-    return 'Balanced choice.';
+};
+
+/**
+ * One-line summary of a ranked route's breakdown
+ */
+export const getRecommendationReason = (route: Route, profile: DrivingProfile): string => {
+    if (!route.ranking) return 'Balanced choice.';
+
+    // Name the criteria that contribute most to this route's score
+    const strongest = route.ranking.criteria
+        .filter(c => c.weight > 0
+            && !(c.criterion === 'infrastructure' && route.infrastructureScore === undefined)
+            && !(c.criterion === 'weather' && route.weatherRisk === undefined)
+            && !(c.criterion === 'hilliness' && route.hillinessScore === undefined))
+        .sort((a, b) => b.contribution - a.contribution)
+        .slice(0, 2)
+        .map(c => describeCriterion(c.criterion, route));
+
+    if (strongest.length === 0) return 'Balanced choice.';
+
+    const darkness = route.daylight?.darknessFraction;
+    const daytimeNote = darkness === 0 && getProfileWeights(profile, route.mode).lighting > 0
+        ? ' Lighting ignored in daylight.'
+        : '';
+    return `Best fit for ${profile.name.replace('_', ' ')}: ${strongest.join(', ')}.${daytimeNote}`;
 };
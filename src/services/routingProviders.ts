@@ -0,0 +1,262 @@
+import { LatLng, RouteGeometry, RouteLeg, RouteStep, TravelMode } from '../types';
+import { computeBounds } from '../utils/geo';
+
+export interface RouteRequest {
+    origin: LatLng;
+    destination: LatLng;
+    waypoints: LatLng[]; // intermediate stops, in visiting order
+    optimizeWaypoints: boolean; // let the provider reorder the intermediate stops
+    alternatives: boolean;
+    mode: TravelMode;
+    departureTime?: Date; // for traffic-aware durations, where the provider has them
+}
+
+export interface RoutingProvider {
+    id: string;
+    name: string;
+    supportsTraffic: boolean; // durations depend on departureTime
+    isAvailable: () => boolean;
+    route: (request: RouteRequest) => Promise<RouteGeometry[]>;
+}
+
+const DEFAULT_OSRM_URL = "https://router.project-osrm.org";
+
+// Display names by provider id, as stored on each route's geometry
+const PROVIDER_NAMES: Record<string, string> = {
+    google: 'Google Directions',
+    osrm: 'OSRM'
+};
+
+// OSRM profile names as used by the reference server setups
+const OSRM_PROFILES: Record<TravelMode, string> = {
+    driving: 'driving',
+    walking: 'foot',
+    cycling: 'bike'
+};
+
+const stripHtml = (html: string): string => {
+    return html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+};
+
+const toLatLng = (p: google.maps.LatLng): LatLng => ({ lat: p.lat(), lng: p.lng() });
+
+/**
+ * Google Directions, via the Maps JS API loaded by useJsApiLoader
+ */
+export const googleProvider: RoutingProvider = {
+    id: 'google',
+    name: PROVIDER_NAMES.google,
+    supportsTraffic: true,
+    isAvailable: () => Boolean(window.google && window.google.maps),
+    route: async (request) => {
+        if (!window.google || !window.google.maps) {
+            throw new Error("Google Maps API not loaded");
+        }
+
+        const travelModes: Record<TravelMode, google.maps.TravelMode> = {
+            driving: google.maps.TravelMode.DRIVING,
+            walking: google.maps.TravelMode.WALKING,
+            cycling: google.maps.TravelMode.BICYCLING
+        };
+
+        // Google only predicts traffic for driving, and rejects departure times in the past
+        const departureTime = request.departureTime;
+        const withTraffic = request.mode === 'driving' && departureTime !== undefined && departureTime.getTime() > Date.now();
+
+        const directionsService = new google.maps.DirectionsService();
+        const response = await directionsService.route({
+            origin: request.origin,
+            destination: request.destination,
+            waypoints: request.waypoints.map(location => ({ location, stopover: true })),
+            optimizeWaypoints: request.optimizeWaypoints,
+            travelMode: travelModes[request.mode],
+            drivingOptions: withTraffic ? { departureTime, trafficModel: google.maps.TrafficModel.BEST_GUESS } : undefined,
+            // Google ignores alternatives once waypoints are set
+            provideRouteAlternatives: request.alternatives
+        });
+
+        return (response.routes || []).map(gRoute => {
+            const path = (gRoute.overview_path || []).map(toLatLng);
+
+            const legs: RouteLeg[] = (gRoute.legs || []).map(leg => {
+                const baseDuration = leg.duration?.value || 0;
+                const duration = leg.duration_in_traffic?.value || baseDuration;
+                // Steps carry no traffic estimate; spread the leg's delay over them
+                const trafficFactor = baseDuration > 0 ? duration / baseDuration : 1;
+
+                return {
+                    startAddress: leg.start_address,
+                    endAddress: leg.end_address,
+                    startLocation: toLatLng(leg.start_location),
+                    endLocation: toLatLng(leg.end_location),
+                    distance: leg.distance?.value || 0,
+                    duration,
+                    steps: (leg.steps || []).map((step): RouteStep => ({
+                        instruction: stripHtml(step.instructions || ''),
+                        maneuver: step.maneuver || undefined,
+                        distance: step.distance?.value || 0,
+                        duration: (step.duration?.value || 0) * trafficFactor,
+                        path: (step.path || []).map(toLatLng)
+                    }))
+                };
+            });
+
+            return {
+                provider: 'google',
+                summary: gRoute.summary,
+                path,
+                bounds: gRoute.bounds ? gRoute.bounds.toJSON() : computeBounds(path),
+                legs,
+                waypointOrder: gRoute.waypoint_order
+            };
+        });
+    }
+};
+
+/**
+ * Builds a readable instruction from an OSRM maneuver, which carries no text of its own
+ */
+const describeOsrmStep = (step: any): string => {
+    const { type, modifier } = step.maneuver || {};
+    const road = step.name || step.ref || 'the road';
+    const direction = modifier ? ` ${modifier}` : '';
+
+    switch (type) {
+        case 'depart':
+            return `Head${direction} on ${road}`;
+        case 'arrive':
+            return 'Arrive at destination';
+        case 'turn':
+        case 'end of road':
+            return `Turn${direction} onto ${road}`;
+        case 'merge':
+            return `Merge${direction} onto ${road}`;
+        case 'on ramp':
+            return `Take the ramp onto ${road}`;
+        case 'off ramp':
+            return `Take the exit towards ${road}`;
+        case 'fork':
+            return `Keep${direction} at the fork onto ${road}`;
+        case 'roundabout':
+        case 'rotary':
+            return step.maneuver.exit
+                ? `At the roundabout, take exit ${step.maneuver.exit} onto ${road}`
+                : `Enter the roundabout towards ${road}`;
+        default:
+            return `Continue${direction} on ${road}`;
+    }
+};
+
+const fromGeoJsonLine = (coordinates: [number, number][]): LatLng[] => {
+    return (coordinates || []).map(([lng, lat]) => ({ lat, lng }));
+};
+
+/**
+ * OSRM-compatible HTTP provider. Works against the public demo server
+ * or a self-hosted instance (VITE_OSRM_URL).
+ */
+export const createOsrmProvider = (baseUrl: string = DEFAULT_OSRM_URL): RoutingProvider => ({
+    id: 'osrm',
+    name: PROVIDER_NAMES.osrm,
+    supportsTraffic: false,
+    isAvailable: () => true,
+    route: async (request) => {
+        const stops = [request.origin, ...request.waypoints, request.destination];
+        const coords = stops.map(p => `${p.lng},${p.lat}`).join(';');
+        const root = baseUrl.replace(/\/$/, '');
+        const profile = OSRM_PROFILES[request.mode];
+
+        // The trip service solves the stop order, keeping the first and last stop fixed
+        const shouldOptimize = request.optimizeWaypoints && request.waypoints.length > 1;
+        const url = shouldOptimize
+            ? `${root}/trip/v1/${profile}/${coords}?source=first&destination=last&roundtrip=false&overview=full&geometries=geojson&steps=true`
+            : `${root}/route/v1/${profile}/${coords}?alternatives=${request.alternatives}&overview=full&geometries=geojson&steps=true`;
+
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`OSRM API error: ${response.status}`);
+        }
+
+        const data = await response.json();
+        if (data.code !== 'Ok') {
+            throw new Error(`OSRM routing failed: ${data.message || data.code}`);
+        }
+
+        // Trip waypoints are returned in input order, each with its position in the trip
+        const waypoints: any[] = shouldOptimize
+            ? [...(data.waypoints || [])].sort((a, b) => a.waypoint_index - b.waypoint_index)
+            : (data.waypoints || []);
+        const waypointOrder = shouldOptimize
+            ? waypoints.slice(1, -1).map(w => (data.waypoints as any[]).indexOf(w) - 1)
+            : undefined;
+        const orderedStops = waypointOrder
+            ? [request.origin, ...waypointOrder.map(i => request.waypoints[i]), request.destination]
+            : stops;
+
+        const waypointNames: string[] = waypoints.map((w: any) => w.name || '');
+
+        return (data.routes || data.trips || []).map((oRoute: any): RouteGeometry => {
+            const path = fromGeoJsonLine(oRoute.geometry?.coordinates);
+
+            const legs: RouteLeg[] = (oRoute.legs || []).map((leg: any, legIndex: number) => {
+                const steps: RouteStep[] = (leg.steps || []).map((step: any) => ({
+                    instruction: describeOsrmStep(step),
+                    maneuver: [step.maneuver?.type, step.maneuver?.modifier].filter(Boolean).join('-'),
+                    distance: step.distance || 0,
+                    duration: step.duration || 0,
+                    path: fromGeoJsonLine(step.geometry?.coordinates)
+                }));
+                const firstStep = steps[0]?.path[0];
+                const lastStep = steps[steps.length - 1]?.path.slice(-1)[0];
+
+                return {
+                    startAddress: waypointNames[legIndex] || 'Start',
+                    endAddress: waypointNames[legIndex + 1] || 'End',
+                    startLocation: firstStep || orderedStops[legIndex],
+                    endLocation: lastStep || orderedStops[legIndex + 1],
+                    distance: leg.distance || 0,
+                    duration: leg.duration || 0,
+                    steps
+                };
+            });
+
+            return {
+                provider: 'osrm',
+                summary: oRoute.legs?.[0]?.summary || '',
+                path,
+                bounds: computeBounds(path),
+                legs,
+                waypointOrder
+            };
+        });
+    }
+});
+
+export const getRoutingProviderName = (id: string): string => PROVIDER_NAMES[id] || id;
+
+// The implicit choice is logged once rather than on every search
+let hasReportedDefault = false;
+
+/**
+ * Picks the provider from VITE_ROUTING_PROVIDER ("google" | "osrm").
+ * Without an explicit choice, Google is used when a Maps key is configured;
+ * the fallback is logged so a missing key doesn't go unnoticed.
+ */
+export const getRoutingProvider = (): RoutingProvider => {
+    const configured = import.meta.env.VITE_ROUTING_PROVIDER;
+    const osrmUrl = import.meta.env.VITE_OSRM_URL || DEFAULT_OSRM_URL;
+
+    if (configured === 'osrm') return createOsrmProvider(osrmUrl);
+    if (configured === 'google') return googleProvider;
+
+    const provider = import.meta.env.VITE_GOOGLE_MAPS_API_KEY ? googleProvider : createOsrmProvider(osrmUrl);
+    if (!hasReportedDefault) {
+        hasReportedDefault = true;
+        if (configured) {
+            console.warn(`Unknown VITE_ROUTING_PROVIDER "${configured}", routing with ${provider.name}`);
+        } else if (provider !== googleProvider) {
+            console.warn(`No Google Maps key and no VITE_ROUTING_PROVIDER set, routing with ${provider.name} (${osrmUrl})`);
+        }
+    }
+    return provider;
+};
@@ -0,0 +1,175 @@
+import { FavouritePlace, RecentSearch, Route, RouteScoreSnapshot, SavedTrip } from '../types';
+
+const FAVOURITES_KEY = 'smartdrive.favouritePlaces';
+const RECENT_KEY = 'smartdrive.recentSearches';
+const TRIPS_KEY = 'smartdrive.savedTrips';
+
+const MAX_RECENT_SEARCHES = 10;
+
+const EXPORT_FORMAT = 'smartdrive-trips';
+const EXPORT_VERSION = 1;
+
+export interface TripData {
+    favourites: FavouritePlace[];
+    recent: RecentSearch[];
+    trips: SavedTrip[];
+}
+
+const isStringArray = (value: any): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isValidFavourite = (value: any): value is FavouritePlace => {
+    return value
+        && typeof value.id === 'string'
+        && ['home', 'work', 'custom'].includes(value.kind)
+        && typeof value.label === 'string'
+        && typeof value.address === 'string';
+};
+
+const isValidRecent = (value: any): value is RecentSearch => {
+    return value
+        && isStringArray(value.stops) && value.stops.length >= 2
+        && typeof value.mode === 'string'
+        && typeof value.searchedAt === 'string';
+};
+
+const isValidTrip = (value: any): value is SavedTrip => {
+    return value
+        && typeof value.id === 'string'
+        && typeof value.name === 'string'
+        && isStringArray(value.stops) && value.stops.length >= 2
+        && typeof value.date === 'string'
+        && typeof value.time === 'string'
+        && typeof value.profileId === 'string'
+        && Array.isArray(value.routes);
+};
+
+/**
+ * Reads a list from localStorage, skipping anything malformed
+ */
+const loadList = <T>(key: string, isValid: (value: any) => value is T): T[] => {
+    try {
+        const raw = localStorage.getItem(key);
+        if (!raw) return [];
+
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed.filter(isValid) : [];
+    } catch (error) {
+        console.warn(`Failed to load ${key}`, error);
+        return [];
+    }
+};
+
+const saveList = (key: string, items: unknown[]): void => {
+    try {
+        localStorage.setItem(key, JSON.stringify(items));
+    } catch (error) {
+        console.warn(`Failed to save ${key}`, error);
+    }
+};
+
+export const loadFavourites = (): FavouritePlace[] => loadList(FAVOURITES_KEY, isValidFavourite);
+export const saveFavourites = (favourites: FavouritePlace[]): void => saveList(FAVOURITES_KEY, favourites);
+
+export const loadRecentSearches = (): RecentSearch[] => loadList(RECENT_KEY, isValidRecent);
+
+export const loadSavedTrips = (): SavedTrip[] => loadList(TRIPS_KEY, isValidTrip);
+export const saveSavedTrips = (trips: SavedTrip[]): void => saveList(TRIPS_KEY, trips);
+
+const searchKey = (search: Pick<RecentSearch, 'stops' | 'mode'>) => `${search.mode}|${search.stops.map(s => s.toLowerCase()).join('|')}`;
+
+/**
+ * Puts a search at the top of the recent list, dropping an earlier identical one
+ */
+export const addRecentSearch = (recent: RecentSearch[], search: RecentSearch): RecentSearch[] => {
+    const next = [search, ...recent.filter(r => searchKey(r) !== searchKey(search))].slice(0, MAX_RECENT_SEARCHES);
+    saveList(RECENT_KEY, next);
+    return next;
+};
+
+export const clearRecentSearches = (): void => saveList(RECENT_KEY, []);
+
+/**
+ * Home and Work are single places, so setting one replaces the previous
+ */
+export const createFavourite = (kind: FavouritePlace['kind'], address: string, label?: string): FavouritePlace => ({
+    id: kind === 'custom' ? `place-${Date.now().toString(36)}` : kind,
+    kind,
+    label: label || (kind === 'home' ? 'Home' : kind === 'work' ? 'Work' : address.split(',')[0]),
+    address
+});
+
+export const snapshotRoutes = (routes: Route[]): RouteScoreSnapshot[] => routes.map(route => ({
+    routeId: route.id,
+    description: route.description,
+    roadType: route.roadType,
+    eta: route.eta,
+    distance: route.distance,
+    lightingScore: route.lightingScore,
+    activityScore: route.activityScore,
+    weatherRisk: route.weatherRisk?.score,
+    profileScore: route.ranking?.score,
+    rank: route.ranking?.rank
+}));
+
+export const createSavedTrip = (
+    name: string,
+    trip: Omit<SavedTrip, 'id' | 'name' | 'savedAt' | 'routes'>,
+    routes: Route[]
+): SavedTrip => ({
+    id: `trip-${Date.now().toString(36)}`,
+    name,
+    savedAt: new Date().toISOString(),
+    ...trip,
+    routes: snapshotRoutes(routes)
+});
+
+export interface TripScoreChange {
+    saved: RouteScoreSnapshot;
+    current?: RouteScoreSnapshot; // missing when the route is no longer offered
+}
+
+/**
+ * Pairs each saved route with today's version of it, by id and then by description
+ */
+export const compareTripScores = (trip: SavedTrip, routes: Route[]): TripScoreChange[] => {
+    const current = snapshotRoutes(routes);
+    return trip.routes.map(saved => ({
+        saved,
+        current: current.find(r => r.routeId === saved.routeId)
+            ?? current.find(r => r.description === saved.description)
+    }));
+};
+
+export const exportTripData = (data: TripData): string => {
+    return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, ...data }, null, 2);
+};
+
+/**
+ * Merges an exported file into the current data; entries with the same id are replaced
+ */
+export const importTripData = (contents: string, current: TripData): TripData => {
+    const data = JSON.parse(contents);
+    if (data.format !== EXPORT_FORMAT) {
+        throw new Error("Not a SmartDrive trips file");
+    }
+    if (data.version !== EXPORT_VERSION) {
+        throw new Error(`Unsupported trips file version ${data.version}`);
+    }
+
+    const mergeById = <T extends { id: string }>(existing: T[], incoming: T[]): T[] => [
+        ...existing.filter(e => !incoming.some(i => i.id === e.id)),
+        ...incoming
+    ];
+
+    const favourites = mergeById(current.favourites, (data.favourites || []).filter(isValidFavourite));
+    const trips = mergeById(current.trips, (data.trips || []).filter(isValidTrip));
+    const recent = [...current.recent, ...(data.recent || []).filter(isValidRecent)]
+        .sort((a, b) => b.searchedAt.localeCompare(a.searchedAt))
+        .filter((search, i, all) => all.findIndex(s => searchKey(s) === searchKey(search)) === i)
+        .slice(0, MAX_RECENT_SEARCHES);
+
+    saveFavourites(favourites);
+    saveSavedTrips(trips);
+    saveList(RECENT_KEY, recent);
+    return { favourites, recent, trips };
+};
@@ -1,7 +1,12 @@
-import { WeatherData, RouteWeather } from '../types';
-import { findCitiesAlongRoute, LatLng } from './osmService';
+import { WeatherData, RouteWeather, RouteGeometry, WeatherRisk } from '../types';
+import { findCitiesAlongRoute } from './osmService';
+import { fetchJsonCached } from './cacheService';
+import { cumulativeDistancesKm, haversineKm } from '../utils/geo';
+import { buildEtaTimeline, secondsAtDistanceFraction } from '../utils/timeline';
 
 const WEATHER_API_URL = "https://api.open-meteo.com/v1/forecast";
+const HOUR_MS = 60 * 60 * 1000;
+const FORECAST_VARIABLES = "temperature_2m,weathercode,precipitation,wind_gusts_10m,visibility";
 
 const WMO_CODES: Record<number, string> = {
     0: "Clear sky",
@@ -13,107 +18,246 @@ const WMO_CODES: Record<number, string> = {
     51: "Light drizzle",
     53: "Moderate drizzle",
     55: "Dense drizzle",
+    56: "Light freezing drizzle",
+    57: "Dense freezing drizzle",
     61: "Slight rain",
     63: "Moderate rain",
     65: "Heavy rain",
+    66: "Light freezing rain",
+    67: "Heavy freezing rain",
     80: "Slight rain showers",
     81: "Moderate rain showers",
     82: "Violent rain showers",
     71: "Slight snow fall",
     73: "Moderate snow fall",
     75: "Heavy snow fall",
+    77: "Snow grains",
+    85: "Slight snow showers",
+    86: "Heavy snow showers",
     95: "Thunderstorm",
     96: "Thunderstorm with slight hail",
     99: "Thunderstorm with heavy hail"
 };
 
+// Driving hazard of each WMO code, 0-10. Codes not listed carry no hazard.
+const WMO_HAZARDS: Record<number, number> = {
+    45: 5, // fog
+    48: 6, // rime fog, icy surfaces
+    51: 1,
+    53: 1.5,
+    55: 2,
+    56: 7, // freezing drizzle
+    57: 8,
+    61: 1.5,
+    63: 3,
+    65: 5,
+    66: 8, // freezing rain
+    67: 9,
+    71: 5, // snow
+    73: 6.5,
+    75: 8,
+    77: 5,
+    80: 2,
+    81: 3.5,
+    82: 6,
+    85: 6,
+    86: 8,
+    95: 7, // thunderstorm
+    96: 8,
+    99: 9
+};
+
 const getWeatherDescription = (code: number): string => {
     return WMO_CODES[code] || "Unknown";
 };
 
-const fetchPointWeather = async (lat: number, lng: number, date?: string, time?: string): Promise<WeatherData> => {
+/**
+ * Hazard of a single forecast, 0-10, with the conditions that make it up.
+ * The WMO code sets the base; intensity, gusts and poor visibility add to it.
+ */
+const assessPoint = (data: WeatherData): { score: number, hazards: string[] } => {
+    const hazards: string[] = [];
+    let score = WMO_HAZARDS[data.code] ?? 0;
+    if (score >= 3) hazards.push(data.description);
+
+    const precipitation = data.precipitation ?? 0;
+    if (precipitation >= 7.6) {
+        score += 2.5;
+        hazards.push(`${precipitation} mm/h precipitation`);
+    } else if (precipitation >= 2.5) {
+        score += 1;
+    }
+
+    const gusts = data.windGusts ?? 0;
+    if (gusts >= 90) {
+        score += 4;
+    } else if (gusts >= 70) {
+        score += 2.5;
+    } else if (gusts >= 50) {
+        score += 1;
+    }
+    if (gusts >= 70) hazards.push(`Gusts ${Math.round(gusts)} km/h`);
+
+    const visibility = data.visibility;
+    if (visibility !== undefined) {
+        if (visibility < 200) {
+            score += 3;
+        } else if (visibility < 1000) {
+            score += 1.5;
+        }
+        if (visibility < 1000) hazards.push(`Visibility ${Math.round(visibility)} m`);
+    }
+
+    return { score: Math.min(10, score), hazards };
+};
+
+/**
+ * Weather risk along a route, 0-10. Blends the worst point with the average so
+ * a single storm cell counts, but a route that is bad throughout counts more.
+ */
+export const computeWeatherRisk = (weather: RouteWeather): WeatherRisk => {
+    const points = [
+        { name: 'Origin', data: weather.origin },
+        ...(weather.stops || []).map((data, i) => ({ name: `Stop ${i + 1}`, data })),
+        ...weather.waypoints.map(wp => ({ name: wp.name.split(',')[0], data: wp.data })),
+        { name: 'Destination', data: weather.destination }
+    ].filter(p => p.data.code >= 0);
+
+    if (points.length === 0) return { score: 0, hazards: [] };
+
+    const assessed = points.map(p => ({ ...p, ...assessPoint(p.data) }));
+    const worst = assessed.reduce((a, b) => (b.score > a.score ? b : a));
+    const mean = assessed.reduce((sum, p) => sum + p.score, 0) / assessed.length;
+
+    const hazards = [...assessed]
+        .sort((a, b) => b.score - a.score)
+        .flatMap(p => p.hazards)
+        .filter((h, i, all) => all.indexOf(h) === i);
+
+    return {
+        score: Number((0.6 * worst.score + 0.4 * mean).toFixed(1)),
+        hazards,
+        worstPoint: worst.score > 0 ? { name: worst.name, score: worst.score, time: worst.data.time } : undefined
+    };
+};
+
+/**
+ * Forecast for a point at a given moment (current weather without one).
+ * Open-Meteo's hourly times are requested in UTC, so the right day and hour are
+ * picked even when the arrival crosses midnight or a time zone.
+ */
+const fetchPointWeather = async (lat: number, lng: number, at?: Date): Promise<WeatherData> => {
     try {
         let url = `${WEATHER_API_URL}?latitude=${lat}&longitude=${lng}`;
 
-        // If date is provided, use hourly forecast for that specific day
-        if (date) {
-            url += `&hourly=temperature_2m,weathercode&start_date=${date}&end_date=${date}`;
+        // Round to the nearest forecast hour
+        const target = at ? new Date(Math.round(at.getTime() / HOUR_MS) * HOUR_MS) : undefined;
+        const targetIso = target?.toISOString();
+
+        // If a time is provided, use the hourly forecast for that specific day
+        if (targetIso) {
+            const day = targetIso.split('T')[0];
+            url += `&hourly=${FORECAST_VARIABLES}&timezone=GMT&start_date=${day}&end_date=${day}`;
         } else {
-            url += `&current_weather=true`;
+            url += `&current=${FORECAST_VARIABLES}`;
         }
 
-        const response = await fetch(url);
-        if (!response.ok) throw new Error("Weather API failed");
-
-        const data = await response.json();
-
-        let temp = 0;
-        let code = 0;
+        // A day's hourly forecast is shared by every arrival time on that day
+        const data = await fetchJsonCached('forecast', url);
 
-        if (date && time && data.hourly) {
-            // Find the closest hour index
-            const targetHour = parseInt(time.split(':')[0], 10);
-            const times = data.hourly.time as string[];
+        // Values for the matching hour, or the current conditions (Open-Meteo uses null for gaps)
+        const pick = (source: Record<string, any>, index?: number): Record<string, number | undefined> => Object.fromEntries(
+            FORECAST_VARIABLES.split(',').map(key => {
+                const value = index === undefined ? source[key] : source[key]?.[index];
+                return [key, value ?? undefined];
+            })
+        );
+        let values: Record<string, number | undefined> = {};
 
+        if (targetIso && data.hourly) {
             // OpenMeteo returns ISO strings like "2023-12-25T14:00"
-            // We just need to match the hour part
-            const index = times.findIndex(t => {
-                const h = new Date(t).getHours();
-                return h === targetHour;
-            });
-
-            if (index !== -1) {
-                temp = data.hourly.temperature_2m[index];
-                code = data.hourly.weathercode[index];
-            } else {
-                // Fallback to first available if match fails
-                temp = data.hourly.temperature_2m[0];
-                code = data.hourly.weathercode[0];
-            }
-        } else if (data.current_weather) {
-            temp = data.current_weather.temperature;
-            code = data.current_weather.weathercode;
+            const times = data.hourly.time as string[];
+            const match = times.indexOf(targetIso.slice(0, 13) + ':00');
+            // Fallback to first available if match fails
+            values = pick(data.hourly, match !== -1 ? match : 0);
+        } else if (data.current) {
+            values = pick(data.current);
         }
 
+        const code = values.weathercode ?? 0;
+
         return {
-            temp: temp,
+            temp: values.temperature_2m ?? 0,
             code: code,
-            description: getWeatherDescription(code)
+            description: getWeatherDescription(code),
+            time: at?.toISOString(),
+            precipitation: values.precipitation,
+            windGusts: values.wind_gusts_10m,
+            visibility: values.visibility
         };
     } catch (error) {
         console.warn("Failed to fetch weather for point", lat, lng, error);
-        return { temp: 0, code: -1, description: "Unavailable" };
+        return { temp: 0, code: -1, description: "Unavailable", time: at?.toISOString() };
     }
 };
 
-export const fetchRouteWeather = async (
-    origin: { lat: number; lng: number },
-    destination: { lat: number; lng: number },
-    routePath?: { lat: number; lng: number }[],
-    travelDate?: string,
-    travelTime?: string
-): Promise<RouteWeather> => {
-
-    // Fetch distinct cities along the route
-    let cityWaypoints: { name: string, lat: number, lng: number }[] = [];
-    if (routePath && routePath.length > 0) {
-        // Convert to compatible LatLng array
-        const osmPath = routePath.map(p => ({
-            lat: typeof (p as any).lat === 'function' ? (p as any).lat() : p.lat,
-            lng: typeof (p as any).lng === 'function' ? (p as any).lng() : p.lng
-        }));
-
-        cityWaypoints = await findCitiesAlongRoute(osmPath);
-    }
+/**
+ * Weather along a route at the time each point is actually reached.
+ * Arrival times follow the step durations from the departure time, so on a long
+ * trip the cities further along are forecast for later hours (or the next day).
+ */
+export const fetchRouteWeather = async (geometry: RouteGeometry, departure?: Date): Promise<RouteWeather> => {
+    const path = geometry.path;
+    const origin = path[0];
+    const destination = path[path.length - 1];
+
+    const timeline = buildEtaTimeline(geometry);
+    const distances = cumulativeDistancesKm(path);
+    const totalKm = distances[distances.length - 1] || 0;
+
+    const arrivalAt = (fraction: number): Date | undefined => departure && new Date(
+        departure.getTime() + secondsAtDistanceFraction(timeline, fraction) * 1000
+    );
+
+    // Fetch distinct cities along the route, placed at their nearest point on the path
+    const cityWaypoints = (await findCitiesAlongRoute(path)).map(city => {
+        let nearest = 0;
+        let best = Infinity;
+        path.forEach((p, i) => {
+            const d = haversineKm(p, city);
+            if (d < best) {
+                best = d;
+                nearest = i;
+            }
+        });
+        return { ...city, distanceKm: distances[nearest] };
+    }).sort((a, b) => a.distanceKm - b.distanceKm);
+
+    // Intermediate stops sit on leg boundaries, reached after the preceding legs' durations
+    let elapsed = 0;
+    const stops = geometry.legs.slice(0, -1).map(leg => {
+        elapsed += leg.duration;
+        return { location: leg.endLocation, at: departure && new Date(departure.getTime() + elapsed * 1000) };
+    });
 
     try {
-        const originWeatherPromise = fetchPointWeather(origin.lat, origin.lng, travelDate, travelTime);
-        const destWeatherPromise = fetchPointWeather(destination.lat, destination.lng, travelDate, travelTime);
+        const originWeatherPromise = fetchPointWeather(origin.lat, origin.lng, departure);
+        const destWeatherPromise = fetchPointWeather(destination.lat, destination.lng, arrivalAt(1));
+
+        const stopWeatherPromise = Promise.all(
+            stops.map(stop => fetchPointWeather(stop.location.lat, stop.location.lng, stop.at))
+        );
 
         // Fetch weather for each found city
         const cityWeatherPromises = cityWaypoints.map(async city => {
-            const data = await fetchPointWeather(city.lat, city.lng, travelDate, travelTime);
-            return { name: city.name, data };
+            const fraction = totalKm > 0 ? city.distanceKm / totalKm : 0;
+            const data = await fetchPointWeather(city.lat, city.lng, arrivalAt(fraction));
+            return {
+                name: city.name,
+                data,
+                distanceKm: Number(city.distanceKm.toFixed(1)),
+                location: { lat: city.lat, lng: city.lng }
+            };
         });
 
         const [originWeather, destWeather, ...cityWeathers] = await Promise.all([
@@ -125,6 +269,7 @@ export const fetchRouteWeather = async (
         return {
             origin: originWeather,
             destination: destWeather,
+            stops: await stopWeatherPromise,
             waypoints: cityWeathers
         };
     } catch (error) {
@@ -1,47 +1,286 @@
 /// <reference types="google.maps" />
 
-export type RoadType = 'Highway' | 'City' | 'Scenic' | 'Backroads';
+export type RoadType = 'Highway' | 'Arterial' | 'City' | 'Backroads' | 'Mixed';
+
+export type TravelMode = 'driving' | 'walking' | 'cycling';
+
+export type RoadClass = 'motorway' | 'primary' | 'residential' | 'unclassified';
+
+// Share of the route's distance on each road class, in percent
+export type RoadComposition = Record<RoadClass, number>;
+
+export interface LatLng {
+    lat: number;
+    lng: number;
+}
+
+export interface RouteBounds {
+    north: number;
+    south: number;
+    east: number;
+    west: number;
+}
+
+// Where place searches should prefer results: the user's position, else the map viewport
+export interface LocationBias {
+    center?: LatLng;
+    bounds?: RouteBounds;
+}
+
+export interface RouteStep {
+    instruction: string; // plain text, no HTML
+    maneuver?: string;
+    distance: number; // in meters
+    duration: number; // in seconds
+    path: LatLng[];
+}
+
+export interface RouteLeg {
+    startAddress: string;
+    endAddress: string;
+    startLocation: LatLng;
+    endLocation: LatLng;
+    distance: number; // in meters
+    duration: number; // in seconds
+    steps: RouteStep[];
+}
+
+// Provider-neutral route shape returned by every RoutingProvider
+export interface RouteGeometry {
+    provider: string;
+    summary: string;
+    path: LatLng[];
+    bounds: RouteBounds;
+    legs: RouteLeg[];
+    waypointOrder?: number[]; // visiting order of the requested intermediate stops
+}
+
+export type LightingSource = 'lit_tag' | 'heuristic' | 'unknown';
+
+export interface LightingSample {
+    point: LatLng;
+    pathIndex: number; // index into RouteGeometry.path
+    distanceKm: number; // from route start
+    score: number; // 2-10
+    source: LightingSource;
+    wayIds: number[]; // OSM ways within reach of the sample, nearest first
+    highway?: string; // OSM highway tag of the nearest way
+    infrastructureScore?: number; // 0-10, footways for walking, cycleways for cycling
+}
+
+export interface LightingStretch {
+    startKm: number;
+    endKm: number;
+    averageScore: number;
+}
+
+export interface LightingProfile {
+    samples: LightingSample[];
+    averageScore: number; // 2-10, weighted by distance
+    unlitKm: number;
+    worstStretch?: LightingStretch;
+    infrastructureScore?: number; // 0-10, only for walking and cycling
+}
+
+export interface ElevationSample {
+    distanceKm: number; // from route start
+    elevation: number; // in meters above sea level
+}
+
+export interface ElevationProfile {
+    samples: ElevationSample[];
+    ascent: number; // total climb, in meters
+    descent: number; // total drop, in meters
+    maxGrade: number; // steepest stretch between samples, in percent, uphill or down
+    minElevation: number;
+    maxElevation: number;
+    source: 'google' | 'open-meteo';
+}
+
+export interface ActivityStats {
+    shops: number;
+    amenities: number;
+    residentialBuildings: number;
+    openPois: number; // POIs known to be open at the travel time
+    closedPois: number; // POIs known to be closed at the travel time
+    perKm: number; // weighted activity per km of route
+    timeAware: boolean;
+}
 
 export interface WeatherData {
     temp: number;
     code: number; // WMO code
     description: string;
+    time?: string; // ISO time the forecast is for, i.e. the arrival at that point
+    precipitation?: number; // mm over the hour
+    windGusts?: number; // km/h at 10 m
+    visibility?: number; // m
 }
 
 export interface RouteWeather {
     origin: WeatherData;
     destination: WeatherData;
+    stops?: WeatherData[]; // intermediate stops, in visiting order
     waypoints: {
         name: string;
         data: WeatherData;
+        distanceKm?: number; // along the route
+        location?: LatLng;
     }[];
 }
 
+export interface WeatherRisk {
+    score: number; // 0-10, higher is more hazardous
+    hazards: string[]; // distinct hazards met along the route, worst first
+    worstPoint?: {
+        name: string;
+        score: number;
+        time?: string; // ISO
+    };
+}
+
+export interface LegSummary {
+    from: string;
+    to: string;
+    eta: number; // in minutes
+    distance: number; // in km
+    lightingScore?: number; // 2-10
+    unlitKm?: number;
+    weather?: WeatherData; // at the end of the leg
+}
+
+// ISO timestamps, null when the sun doesn't rise or set that day
+export interface SunEvents {
+    sunrise: string | null;
+    sunset: string | null;
+    civilDawn: string | null;
+    civilDusk: string | null;
+}
+
+export interface RouteDaylight {
+    darknessFraction: number; // 0-1, share of the travel time spent in darkness
+    departure: string; // ISO
+    arrival: string; // ISO
+    origin: SunEvents;
+    destination: SunEvents;
+}
+
+export type Criterion = 'eta' | 'activity' | 'lighting' | 'infrastructure' | 'weather' | 'hilliness';
+
+export interface CriterionBreakdown {
+    criterion: Criterion;
+    label: string;
+    value: number; // raw value: minutes for ETA, 0-10 for scores
+    normalized: number; // 0-1, higher is better
+    weight: number; // effective weight after travel mode / time of day adjustments
+    contribution: number; // points of the 0-100 total
+    rankDelta: number; // places this criterion moved the route; positive means it helped
+}
+
+export interface RouteRanking {
+    rank: number; // 1-based
+    score: number; // 0-100
+    criteria: CriterionBreakdown[];
+}
+
 export interface Route {
     id: string;
+    mode: TravelMode;
     source: string;
     destination: string;
     eta: number; // in minutes
     distance: number; // in km
     activityScore: number; // 0-10 (Places density)
+    activity?: ActivityStats;
     lightingScore: number; // 0-10
+    lighting?: LightingProfile;
+    infrastructureScore?: number; // 0-10 (Footways / cycleways), walking and cycling only
     roadType: RoadType;
+    roadComposition?: RoadComposition;
     description: string;
     weather?: RouteWeather;
-    // Store the underlying Google Maps direction route object for rendering
-    googleRoute?: google.maps.DirectionsRoute;
+    weatherRisk?: WeatherRisk;
+    elevation?: ElevationProfile;
+    hillinessScore?: number; // 0-10, higher is hillier
+    legs?: LegSummary[];
+    daylight?: RouteDaylight; // set by rankRoutes for the chosen departure
+    ranking?: RouteRanking; // set by rankRoutes
+    // Provider-neutral geometry used for rendering and scoring
+    geometry?: RouteGeometry;
+}
+
+// One candidate departure evaluated by the departure-time optimiser
+export interface DepartureSlot {
+    departure: string; // ISO
+    date: string; // local "YYYY-MM-DD", as the date input uses
+    time: string; // local "HH:MM"
+    score: number; // 0-100, best route at this departure
+    routeId: string; // id of that route
+    eta: number; // in minutes, traffic-aware where the provider supports it
+    darknessFraction?: number;
+    weatherRisk?: number; // 0-10
+    routes: Route[]; // candidates re-evaluated for this departure, ranked
 }
 
-export type ProfileId = 'fast' | 'safe' | 'scenic' | 'balanced';
+export type BuiltInProfileId = 'fast' | 'safe' | 'scenic' | 'balanced';
+
+// Custom profiles use generated ids ("custom-...")
+export type ProfileId = BuiltInProfileId | `custom-${string}`;
+
+export type ProfileWeights = Record<Criterion, number>;
 
 export interface DrivingProfile {
     id: ProfileId;
     name: string;
     description: string;
     icon: string; // Lucide icon name
-    weights: {
-        eta: number;
-        activity: number;
-        lighting: number;
-    };
+    weights: ProfileWeights;
+    // Per-mode overrides, e.g. what "safe" means on foot
+    modeWeights?: Partial<Record<TravelMode, Partial<ProfileWeights>>>;
+    isCustom?: boolean; // user-defined, stored in localStorage
+}
+
+// Places and trips kept in localStorage between sessions
+export type FavouriteKind = 'home' | 'work' | 'custom';
+
+export interface FavouritePlace {
+    id: string;
+    kind: FavouriteKind;
+    label: string;
+    address: string;
+}
+
+export interface RecentSearch {
+    stops: string[]; // start, intermediate stops, destination
+    optimizeStops: boolean;
+    mode: TravelMode;
+    searchedAt: string; // ISO
+}
+
+// A route's scores at the time a trip was saved
+export interface RouteScoreSnapshot {
+    routeId: string;
+    description: string;
+    roadType: RoadType;
+    eta: number; // in minutes
+    distance: number; // in km
+    lightingScore: number;
+    activityScore: number;
+    weatherRisk?: number;
+    profileScore?: number; // 0-100 under the trip's profile
+    rank?: number;
+}
+
+export interface SavedTrip {
+    id: string;
+    name: string;
+    savedAt: string; // ISO
+    stops: string[];
+    optimizeStops: boolean;
+    mode: TravelMode;
+    date: string; // local "YYYY-MM-DD"
+    time: string; // local "HH:MM"
+    profileId: string;
+    selectedRouteId?: string;
+    routes: RouteScoreSnapshot[];
 }
@@ -0,0 +1,80 @@
+import { LatLng } from '../types';
+
+// Accepts what people paste from maps, GPS units and photos:
+//   "48.8584, 2.2945"   "48.8584 2.2945"   "48.8584N 2.2945E"   "N 48.8584, E 2.2945"
+//   "48°51'30.2\"N 2°17'40.2\"E"   "48° 51.503' N, 2° 17.670' E"
+
+const DECIMAL_PATTERN = /^([NS])?\s*([-+]?\d{1,2}(?:\.\d+)?)\s*°?\s*([NS])?\s*(?:[,;]\s*|\s+)([EW])?\s*([-+]?\d{1,3}(?:\.\d+)?)\s*°?\s*([EW])?$/;
+
+// Degrees, optional minutes and seconds, and a hemisphere before or after
+const DMS_COMPONENT = /([NSEW])?\s*(\d{1,3}(?:\.\d+)?)\s*°\s*(?:(\d{1,2}(?:\.\d+)?)\s*'\s*)?(?:(\d{1,2}(?:\.\d+)?)\s*"\s*)?([NSEW])?/g;
+
+const normalize = (text: string) => text
+    .trim()
+    .toUpperCase()
+    .replace(/[′’‘`]/g, "'")
+    .replace(/[″“”]|''/g, '"')
+    .replace(/º|˚/g, '°');
+
+const signed = (value: number, hemisphere?: string) => (hemisphere === 'S' || hemisphere === 'W' ? -Math.abs(value) : value);
+
+const isValid = ({ lat, lng }: LatLng) => isFinite(lat) && isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+const parseDecimal = (text: string): LatLng | null => {
+    // Bare whole numbers ("12 34") are more likely part of an address
+    if (!/[.NSEW]/.test(text)) return null;
+    const match = text.match(DECIMAL_PATTERN);
+    if (!match) return null;
+    const [, latBefore, lat, latAfter, lngBefore, lng, lngAfter] = match;
+    if ((latBefore && latAfter) || (lngBefore && lngAfter)) return null;
+
+    const point = {
+        lat: signed(Number(lat), latBefore || latAfter),
+        lng: signed(Number(lng), lngBefore || lngAfter)
+    };
+    return isValid(point) ? point : null;
+};
+
+const parseDms = (text: string): LatLng | null => {
+    const components = Array.from(text.matchAll(DMS_COMPONENT));
+    if (components.length !== 2) return null;
+
+    // Nothing but separators may be left over
+    const rest = components.reduce((remaining, m) => remaining.replace(m[0], ''), text);
+    if (!/^[\s,;]*$/.test(rest)) return null;
+
+    let lat: number | undefined;
+    let lng: number | undefined;
+    for (const [, before, deg, min, sec, after] of components) {
+        const hemisphere = before || after;
+        const minutes = Number(min || 0);
+        const seconds = Number(sec || 0);
+        if (minutes >= 60 || seconds >= 60) return null;
+
+        const value = Number(deg) + minutes / 60 + seconds / 3600;
+        // Without hemisphere letters, latitude comes first
+        const isLat = hemisphere ? hemisphere === 'N' || hemisphere === 'S' : lat === undefined;
+        if (isLat) {
+            if (lat !== undefined) return null;
+            lat = signed(value, hemisphere);
+        } else {
+            if (lng !== undefined) return null;
+            lng = signed(value, hemisphere);
+        }
+    }
+
+    if (lat === undefined || lng === undefined) return null;
+    const point = { lat, lng };
+    return isValid(point) ? point : null;
+};
+
+/**
+ * Reads a latitude/longitude pair written in decimal degrees or degrees, minutes and seconds
+ */
+export const parseCoordinates = (text: string): LatLng | null => {
+    const normalized = normalize(text);
+    if (!normalized) return null;
+    return normalized.includes('°') ? parseDms(normalized) : parseDecimal(normalized);
+};
+
+export const formatCoordinates = ({ lat, lng }: LatLng): string => `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
@@ -0,0 +1,11 @@
+/**
+ * Saves text as a file through a temporary object URL
+ */
+export const downloadFile = (filename: string, contents: string, mimeType: string): void => {
+    const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
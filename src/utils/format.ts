@@ -0,0 +1,15 @@
+/**
+ * "850 m" below a kilometre, "2.4 km" above, as the directions and navigation show them
+ */
+export const formatDistance = (meters: number): string => {
+    return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters / 10) * 10} m`;
+};
+
+/**
+ * "< 1 min", "12 min" or "1 h 5 min"
+ */
+export const formatDuration = (seconds: number): string => {
+    if (seconds < 60) return '< 1 min';
+    const minutes = Math.round(seconds / 60);
+    return minutes >= 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+};
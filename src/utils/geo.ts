@@ -0,0 +1,153 @@
+import { LatLng, RouteBounds } from '../types';
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+
+/**
+ * Great-circle distance between two points in km
+ */
+export const haversineKm = (a: LatLng, b: LatLng): number => {
+    const dLat = toRad(b.lat - a.lat);
+    const dLng = toRad(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Distance from the start of the path to each of its points, in km
+ */
+export const cumulativeDistancesKm = (path: LatLng[]): number[] => {
+    const distances: number[] = [];
+    let total = 0;
+    path.forEach((p, i) => {
+        if (i > 0) total += haversineKm(path[i - 1], p);
+        distances.push(total);
+    });
+    return distances;
+};
+
+export interface PolylineProjection {
+    point: LatLng; // closest point on the line
+    segmentIndex: number; // the segment starts at this vertex
+    distanceKm: number; // from the input point to the line
+    alongKm: number; // from the start of the line to the closest point, 0 without distances
+}
+
+/**
+ * Closest point on a polyline, optionally only among segments first..last.
+ * Uses a local equirectangular projection, which is accurate at street scale.
+ * With the line's cumulative km, also how far along the line that point is.
+ */
+export const projectOntoPolyline = (
+    point: LatLng,
+    line: LatLng[],
+    distances?: number[],
+    first: number = 0,
+    last: number = line.length - 2
+): PolylineProjection => {
+    if (line.length < 2) {
+        return { point: line[0] ?? point, segmentIndex: 0, distanceKm: line[0] ? haversineKm(point, line[0]) : Infinity, alongKm: 0 };
+    }
+
+    const kmPerDegLat = 111.32;
+    const kmPerDegLng = 111.32 * Math.cos(toRad(point.lat));
+    const project = (p: LatLng) => ({
+        x: (p.lng - point.lng) * kmPerDegLng,
+        y: (p.lat - point.lat) * kmPerDegLat
+    });
+
+    let best: PolylineProjection | null = null;
+    for (let i = Math.max(0, first); i <= Math.min(last, line.length - 2); i++) {
+        const a = project(line[i]);
+        const b = project(line[i + 1]);
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const lengthSq = dx * dx + dy * dy;
+        const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq));
+        const distanceKm = Math.hypot(a.x + t * dx, a.y + t * dy);
+        if (!best || distanceKm < best.distanceKm) {
+            best = {
+                point: {
+                    lat: line[i].lat + t * (line[i + 1].lat - line[i].lat),
+                    lng: line[i].lng + t * (line[i + 1].lng - line[i].lng)
+                },
+                segmentIndex: i,
+                distanceKm,
+                alongKm: distances ? distances[i] + t * (distances[i + 1] - distances[i]) : 0
+            };
+        }
+    }
+    return best ?? { point: line[0], segmentIndex: 0, distanceKm: haversineKm(point, line[0]), alongKm: 0 };
+};
+
+/**
+ * Distance from a point to the closest segment of a polyline, in km
+ */
+export const distanceToPolylineKm = (point: LatLng, line: LatLng[]): number => {
+    return projectOntoPolyline(point, line).distanceKm;
+};
+
+/**
+ * Fewer vertices, none of the dropped ones further than toleranceKm from the
+ * result (Douglas-Peucker). The first and last points are always kept.
+ */
+export const simplifyPath = (path: LatLng[], toleranceKm: number): LatLng[] => {
+    if (path.length < 3) return path.slice();
+
+    const keep = new Array<boolean>(path.length).fill(false);
+    keep[0] = keep[path.length - 1] = true;
+    const stack: [number, number][] = [[0, path.length - 1]];
+
+    while (stack.length > 0) {
+        const [start, end] = stack.pop()!;
+        let farthest = -1;
+        let farthestKm = toleranceKm;
+        for (let i = start + 1; i < end; i++) {
+            const km = distanceToPolylineKm(path[i], [path[start], path[end]]);
+            if (km > farthestKm) {
+                farthest = i;
+                farthestKm = km;
+            }
+        }
+        if (farthest !== -1) {
+            keep[farthest] = true;
+            stack.push([start, farthest], [farthest, end]);
+        }
+    }
+
+    return path.filter((_, i) => keep[i]);
+};
+
+/**
+ * Point at a given share (0-1) of the path's length, interpolated between vertices
+ */
+export const pointAtFraction = (path: LatLng[], distances: number[], fraction: number): LatLng => {
+    const target = Math.max(0, Math.min(1, fraction)) * distances[distances.length - 1];
+    for (let i = 1; i < path.length; i++) {
+        if (target <= distances[i]) {
+            const span = distances[i] - distances[i - 1];
+            const t = span > 0 ? (target - distances[i - 1]) / span : 0;
+            return {
+                lat: path[i - 1].lat + t * (path[i].lat - path[i - 1].lat),
+                lng: path[i - 1].lng + t * (path[i].lng - path[i - 1].lng)
+            };
+        }
+    }
+    return path[path.length - 1];
+};
+
+/**
+ * Smallest bounding box containing every point of the path
+ */
+export const computeBounds = (path: LatLng[]): RouteBounds => {
+    const bounds = { north: -90, south: 90, east: -180, west: 180 };
+    path.forEach(p => {
+        bounds.north = Math.max(bounds.north, p.lat);
+        bounds.south = Math.min(bounds.south, p.lat);
+        bounds.east = Math.max(bounds.east, p.lng);
+        bounds.west = Math.min(bounds.west, p.lng);
+    });
+    return bounds;
+};
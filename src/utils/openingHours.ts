@@ -0,0 +1,96 @@
+const DAY_KEYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+
+const toMinutes = (hhmm: string): number => {
+    const [h, m] = hhmm.split(':').map(n => parseInt(n, 10));
+    return h * 60 + (m || 0);
+};
+
+/**
+ * Expands a day selector such as "Mo-Fr", "Sa,Su" or "Fr-Mo" into weekday indexes (0 = Sunday)
+ */
+const parseDays = (selector: string): number[] | null => {
+    const days: number[] = [];
+    for (const part of selector.split(',')) {
+        const [from, to] = part.split('-').map(d => DAY_KEYS.indexOf(d.trim()));
+        if (from === -1 || to === -1) return null;
+        if (to === undefined) {
+            days.push(from);
+            continue;
+        }
+        for (let d = from; ; d = (d + 1) % 7) {
+            days.push(d);
+            if (d === to) break;
+        }
+    }
+    return days;
+};
+
+/**
+ * Evaluates a subset of the OSM opening_hours syntax at a given moment:
+ * "24/7", weekday ranges, multiple time spans, "off" and spans past midnight.
+ * Days that no rule covers are closed. Returns null when the value uses syntax
+ * we don't understand (holidays, months, ...).
+ */
+export const isOpenAt = (openingHours: string, date: Date): boolean | null => {
+    const spec = openingHours.trim();
+    if (spec === '24/7') return true;
+
+    const weekday = date.getDay();
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    let open: boolean | null = null;
+    let hasDayRule = false;
+
+    for (const rawRule of spec.split(';')) {
+        const rule = rawRule.trim();
+        if (!rule) continue;
+
+        const match = rule.match(/^((?:PH|SH|[A-Z][a-z])(?:[-,](?:PH|SH|[A-Z][a-z]))*)?\s*(.*)$/);
+        if (!match) return null;
+        const [, rawDaySelector, timeSelector] = match;
+
+        // Public and school holidays aren't known, so only the weekdays of a selector count
+        const daySelector = rawDaySelector?.split(',').filter(part => part !== 'PH' && part !== 'SH').join(',');
+        if (rawDaySelector && !daySelector) continue;
+
+        const days = daySelector ? parseDays(daySelector) : [0, 1, 2, 3, 4, 5, 6];
+        if (!days) return null;
+        hasDayRule = true;
+
+        // A span past midnight also covers the early hours of the following day
+        const previousDay = (weekday + 6) % 7;
+        const appliesToday = days.includes(weekday);
+        const appliesFromYesterday = days.includes(previousDay);
+        if (!appliesToday && !appliesFromYesterday) continue;
+
+        const times = timeSelector.trim();
+        if (times === 'off' || times === 'closed') {
+            if (appliesToday) open = false;
+            continue;
+        }
+        if (!times) {
+            if (appliesToday) open = true;
+            continue;
+        }
+
+        let openNow = false;
+        for (const span of times.split(',')) {
+            const spanMatch = span.trim().match(/^(\d{1,2}:\d{2})-(\d{1,2}:\d{2})\+?$/);
+            if (!spanMatch) return null;
+            const start = toMinutes(spanMatch[1]);
+            const end = toMinutes(spanMatch[2]);
+
+            if (end > start) {
+                if (appliesToday && minutes >= start && minutes < end) openNow = true;
+            } else {
+                if (appliesToday && minutes >= start) openNow = true;
+                if (appliesFromYesterday && minutes < end) openNow = true;
+            }
+        }
+
+        // Later rules override earlier ones for the days they cover
+        if (appliesToday || openNow) open = openNow;
+    }
+
+    // Rules were understood but none covers this moment, e.g. a weekday-only shop at the weekend
+    return open ?? (hasDayRule ? false : null);
+};
@@ -0,0 +1,118 @@
+import { LatLng } from '../types';
+
+// Open Location Code ("plus code") decoding, after the reference implementation
+// at https://github.com/google/open-location-code. Full codes ("8FW4V75V+8Q")
+// decode on their own; short codes ("V75V+8Q") need a nearby reference point.
+
+const ALPHABET = '23456789CFGHJMPQRVWX';
+const SEPARATOR = '+';
+const SEPARATOR_POSITION = 8;
+const PADDING = '0';
+const PAIR_CODE_LENGTH = 10;
+const GRID_ROWS = 5;
+const GRID_COLUMNS = 4;
+
+const CODE_PATTERN = /^[23456789CFGHJMPQRVWX0]{2,8}\+[23456789CFGHJMPQRVWX]*$/;
+
+const isValidCode = (code: string): boolean => {
+    if (!CODE_PATTERN.test(code)) return false;
+    const separator = code.indexOf(SEPARATOR);
+    if (separator % 2 !== 0) return false;
+
+    const padding = code.indexOf(PADDING);
+    if (padding !== -1) {
+        // Padding only on a full code, in whole pairs, right before the separator, with nothing after
+        if (padding === 0 || padding % 2 !== 0 || separator !== SEPARATOR_POSITION) return false;
+        if (!/^0+$/.test(code.slice(padding, separator)) || code.length > separator + 1) return false;
+    }
+    // A single character after the separator isn't a valid refinement
+    return code.length - separator - 1 !== 1;
+};
+
+export const isFullPlusCode = (code: string): boolean => {
+    const upper = code.toUpperCase();
+    if (!isValidCode(upper) || upper.indexOf(SEPARATOR) !== SEPARATOR_POSITION) return false;
+    // First latitude digit can't exceed 180 degrees, first longitude digit 360
+    return ALPHABET.indexOf(upper[0]) * 20 < 180 && ALPHABET.indexOf(upper[1]) * 20 < 360;
+};
+
+export const isShortPlusCode = (code: string): boolean => {
+    const upper = code.toUpperCase();
+    const separator = upper.indexOf(SEPARATOR);
+    return isValidCode(upper) && separator >= 2 && separator < SEPARATOR_POSITION;
+};
+
+/**
+ * Centre of the area a full code describes
+ */
+export const decodePlusCode = (code: string): LatLng => {
+    if (!isFullPlusCode(code)) throw new Error(`Not a full plus code: ${code}`);
+    const digits = code.toUpperCase().replace(SEPARATOR, '').replace(/0+$/, '');
+
+    let lat = -90;
+    let lng = -180;
+    let latResolution = 400;
+    let lngResolution = 400;
+
+    for (let i = 0; i < Math.min(digits.length, PAIR_CODE_LENGTH); i += 2) {
+        latResolution /= 20;
+        lngResolution /= 20;
+        lat += ALPHABET.indexOf(digits[i]) * latResolution;
+        lng += ALPHABET.indexOf(digits[i + 1]) * lngResolution;
+    }
+    for (let i = PAIR_CODE_LENGTH; i < digits.length; i++) {
+        latResolution /= GRID_ROWS;
+        lngResolution /= GRID_COLUMNS;
+        const index = ALPHABET.indexOf(digits[i]);
+        lat += Math.floor(index / GRID_COLUMNS) * latResolution;
+        lng += (index % GRID_COLUMNS) * lngResolution;
+    }
+
+    return {
+        lat: Math.min(90, lat + latResolution / 2),
+        lng: lng + lngResolution / 2
+    };
+};
+
+/**
+ * The first digits of the code for a location, as many as a short code leaves out
+ */
+const encodePrefix = (point: LatLng, length: number): string => {
+    let lat = Math.min(Math.max(point.lat, -90), 90 - 1e-9) + 90;
+    let lng = ((point.lng + 180) % 360 + 360) % 360;
+    let resolution = 20;
+    let prefix = '';
+
+    while (prefix.length < length) {
+        const latDigit = Math.floor(lat / resolution);
+        const lngDigit = Math.floor(lng / resolution);
+        prefix += ALPHABET[latDigit] + ALPHABET[lngDigit];
+        lat -= latDigit * resolution;
+        lng -= lngDigit * resolution;
+        resolution /= 20;
+    }
+    return prefix;
+};
+
+/**
+ * Completes a short code with the digits of a reference point, choosing the
+ * matching area nearest to it
+ */
+export const recoverPlusCode = (shortCode: string, reference: LatLng): LatLng => {
+    if (!isShortPlusCode(shortCode)) throw new Error(`Not a short plus code: ${shortCode}`);
+    const code = shortCode.toUpperCase();
+    const missing = SEPARATOR_POSITION - code.indexOf(SEPARATOR);
+    const resolution = Math.pow(20, 2 - missing / 2);
+    const half = resolution / 2;
+
+    const decoded = decodePlusCode(encodePrefix(reference, missing) + code);
+    let { lat, lng } = decoded;
+
+    // The reference may sit near the edge of its cell; the nearest match can be in the next one
+    if (reference.lat + half < lat && lat - resolution >= -90) lat -= resolution;
+    else if (reference.lat - half > lat && lat + resolution <= 90) lat += resolution;
+    if (reference.lng + half < lng) lng -= resolution;
+    else if (reference.lng - half > lng) lng += resolution;
+
+    return { lat, lng: ((lng + 180) % 360 + 360) % 360 - 180 };
+};
@@ -0,0 +1,93 @@
+// Solar position and sun times, after the NOAA / "Astronomical Algorithms" formulas
+// as popularised by SunCalc. Accurate to about a minute, plenty for day/night scoring.
+
+const RAD = Math.PI / 180;
+const DAY_MS = 1000 * 60 * 60 * 24;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const OBLIQUITY = RAD * 23.4397;
+
+// Sun altitudes (degrees) for the events we care about
+const SUNRISE_ALTITUDE = -0.833; // upper limb on the horizon, with refraction
+const CIVIL_TWILIGHT_ALTITUDE = -6;
+
+export interface SunTimes {
+    sunrise: Date | null; // null during polar day / night
+    sunset: Date | null;
+    civilDawn: Date | null;
+    civilDusk: Date | null;
+}
+
+const toJulian = (date: Date) => date.valueOf() / DAY_MS - 0.5 + J1970;
+const fromJulian = (j: number) => new Date((j + 0.5 - J1970) * DAY_MS);
+const toDays = (date: Date) => toJulian(date) - J2000;
+
+const solarMeanAnomaly = (d: number) => RAD * (357.5291 + 0.98560028 * d);
+
+const eclipticLongitude = (m: number) => {
+    const center = RAD * (1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m));
+    const perihelion = RAD * 102.9372;
+    return m + center + perihelion + Math.PI;
+};
+
+const declination = (l: number) => Math.asin(Math.sin(OBLIQUITY) * Math.sin(l));
+const rightAscension = (l: number) => Math.atan2(Math.sin(l) * Math.cos(OBLIQUITY), Math.cos(l));
+const siderealTime = (d: number, lw: number) => RAD * (280.16 + 360.9856235 * d) - lw;
+
+/**
+ * Altitude of the sun above the horizon in degrees (negative below it)
+ */
+export const getSunAltitude = (date: Date, lat: number, lng: number): number => {
+    const lw = RAD * -lng;
+    const phi = RAD * lat;
+    const d = toDays(date);
+    const l = eclipticLongitude(solarMeanAnomaly(d));
+    const dec = declination(l);
+    const hourAngle = siderealTime(d, lw) - rightAscension(l);
+
+    const altitude = Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(hourAngle));
+    return altitude / RAD;
+};
+
+/**
+ * Sunrise, sunset and civil twilight for the day containing `date` at a location
+ */
+export const getSunTimes = (date: Date, lat: number, lng: number): SunTimes => {
+    const lw = RAD * -lng;
+    const phi = RAD * lat;
+
+    const d = toDays(date);
+    const cycle = Math.round(d - 0.0009 - lw / (2 * Math.PI));
+    const approxTransit = 0.0009 + lw / (2 * Math.PI) + cycle;
+
+    const m = solarMeanAnomaly(approxTransit);
+    const l = eclipticLongitude(m);
+    const dec = declination(l);
+    const jNoon = J2000 + approxTransit + 0.0053 * Math.sin(m) - 0.0069 * Math.sin(2 * l);
+
+    const timesFor = (altitude: number): [Date | null, Date | null] => {
+        const cosH = (Math.sin(altitude * RAD) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec));
+        if (cosH < -1 || cosH > 1) return [null, null];
+
+        const w = Math.acos(cosH);
+        const a = 0.0009 + (w + lw) / (2 * Math.PI) + cycle;
+        const jSet = J2000 + a + 0.0053 * Math.sin(m) - 0.0069 * Math.sin(2 * l);
+        const jRise = jNoon - (jSet - jNoon);
+        return [fromJulian(jRise), fromJulian(jSet)];
+    };
+
+    const [sunrise, sunset] = timesFor(SUNRISE_ALTITUDE);
+    const [civilDawn, civilDusk] = timesFor(CIVIL_TWILIGHT_ALTITUDE);
+
+    return { sunrise, sunset, civilDawn, civilDusk };
+};
+
+/**
+ * How dark it is, 0 (sun up) to 1 (past civil twilight), linear through twilight
+ */
+export const getDarkness = (date: Date, lat: number, lng: number): number => {
+    const altitude = getSunAltitude(date, lat, lng);
+    if (altitude >= SUNRISE_ALTITUDE) return 0;
+    if (altitude <= CIVIL_TWILIGHT_ALTITUDE) return 1;
+    return (SUNRISE_ALTITUDE - altitude) / (SUNRISE_ALTITUDE - CIVIL_TWILIGHT_ALTITUDE);
+};
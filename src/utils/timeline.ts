@@ -0,0 +1,64 @@
+import { RouteGeometry } from '../types';
+
+/**
+ * Cumulative distance and travel time along a route, built from step (or leg)
+ * durations so slow and fast stretches are reflected in arrival times.
+ */
+export interface EtaTimeline {
+    totalKm: number;
+    totalSeconds: number;
+    points: { km: number, seconds: number }[];
+}
+
+export const buildEtaTimeline = (geometry: RouteGeometry): EtaTimeline => {
+    const points = [{ km: 0, seconds: 0 }];
+    let km = 0;
+    let seconds = 0;
+
+    geometry.legs.forEach(leg => {
+        const segments = leg.steps.length > 0 ? leg.steps : [leg];
+        segments.forEach(segment => {
+            km += segment.distance / 1000;
+            seconds += segment.duration;
+            points.push({ km, seconds });
+        });
+    });
+
+    return { totalKm: km, totalSeconds: seconds, points };
+};
+
+const interpolate = (
+    points: EtaTimeline['points'],
+    from: 'km' | 'seconds',
+    to: 'km' | 'seconds',
+    value: number
+): number => {
+    if (points.length === 0) return 0;
+    if (value <= points[0][from]) return points[0][to];
+
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        if (value <= b[from]) {
+            const span = b[from] - a[from];
+            const t = span > 0 ? (value - a[from]) / span : 1;
+            return a[to] + t * (b[to] - a[to]);
+        }
+    }
+    return points[points.length - 1][to];
+};
+
+/**
+ * Seconds after departure at which a given share (0-1) of the distance is covered
+ */
+export const secondsAtDistanceFraction = (timeline: EtaTimeline, fraction: number): number => {
+    return interpolate(timeline.points, 'km', 'seconds', fraction * timeline.totalKm);
+};
+
+/**
+ * Share (0-1) of the distance covered a given number of seconds after departure
+ */
+export const distanceFractionAtSeconds = (timeline: EtaTimeline, seconds: number): number => {
+    if (timeline.totalKm <= 0) return 0;
+    return interpolate(timeline.points, 'seconds', 'km', seconds) / timeline.totalKm;
+};
@@ -0,0 +1,73 @@
+import { TravelMode } from '../types';
+
+/**
+ * Everything needed to reproduce a search, as carried in the page URL:
+ * ?from=A&via=B&via=C&to=D&date=2024-05-10&time=21:30&mode=driving&profile=safe&route=<id>
+ */
+export interface TripState {
+    stops: string[]; // start, intermediate stops, destination
+    optimizeStops: boolean;
+    date: string;
+    time: string;
+    mode: TravelMode;
+    profileId: string;
+    routeId?: string;
+}
+
+const TRAVEL_MODES: TravelMode[] = ['driving', 'walking', 'cycling'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+export const buildTripQuery = (trip: TripState): string => {
+    const params = new URLSearchParams();
+    params.set('from', trip.stops[0]);
+    trip.stops.slice(1, -1).forEach(stop => params.append('via', stop));
+    params.set('to', trip.stops[trip.stops.length - 1]);
+    if (trip.optimizeStops) params.set('optimize', '1');
+    params.set('date', trip.date);
+    params.set('time', trip.time);
+    params.set('mode', trip.mode);
+    params.set('profile', trip.profileId);
+    if (trip.routeId) params.set('route', trip.routeId);
+    return `?${params.toString()}`;
+};
+
+/**
+ * Reads a trip from a query string. Missing or malformed optional fields are left
+ * undefined so the caller keeps its current values; without both ends there is no trip.
+ */
+export const parseTripQuery = (search: string): Partial<TripState> & { stops: string[] } | null => {
+    const params = new URLSearchParams(search);
+    const from = params.get('from')?.trim();
+    const to = params.get('to')?.trim();
+    if (!from || !to) return null;
+
+    const date = params.get('date') ?? '';
+    const time = params.get('time') ?? '';
+    const mode = params.get('mode') as TravelMode | null;
+
+    return {
+        stops: [from, ...params.getAll('via').map(s => s.trim()).filter(Boolean), to],
+        optimizeStops: params.get('optimize') === '1',
+        date: DATE_PATTERN.test(date) ? date : undefined,
+        time: TIME_PATTERN.test(time) ? time : undefined,
+        mode: mode && TRAVEL_MODES.includes(mode) ? mode : undefined,
+        profileId: params.get('profile') || undefined,
+        routeId: params.get('route') || undefined
+    };
+};
+
+/**
+ * Records a trip in the browser history: a new entry per search, replaced in place
+ * for changes to the same search (profile, time, selected route)
+ */
+export const writeTripToHistory = (trip: TripState, mode: 'push' | 'replace'): void => {
+    const query = buildTripQuery(trip);
+    if (query === window.location.search) return;
+    const url = `${window.location.pathname}${query}${window.location.hash}`;
+    if (mode === 'push') {
+        window.history.pushState(null, '', url);
+    } else {
+        window.history.replaceState(null, '', url);
+    }
+};
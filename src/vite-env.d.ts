@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    readonly VITE_GOOGLE_MAPS_API_KEY?: string;
+    // "google" | "osrm"; defaults to Google when a Maps key is set
+    readonly VITE_ROUTING_PROVIDER?: string;
+    // Base URL of an OSRM-compatible server, e.g. a self-hosted instance
+    readonly VITE_OSRM_URL?: string;
+    // "google" | "nominatim"; the primary geocoder, Nominatim is always the fallback
+    readonly VITE_GEOCODER?: string;
+    // Comma-separated Overpass API endpoints, tried in order
+    readonly VITE_OVERPASS_URLS?: string;
+}